@@ -1,194 +1,171 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useId } from 'react';
 import { useWebcam } from './hooks/useWebcam';
 import { useSound } from './hooks/useSound';
 import { useFaceDetection } from './hooks/useFaceDetection';
-import { AppState, FilterType, FrameColor, GridType, PhotoConfig, AnimationType, MaskType, FaceData } from './types';
-import { DEFAULT_CONFIG, GRID_CONFIGS, FILTERS, FRAMES, TIMERS, ANIMATIONS, MASKS } from './constants';
-import { captureFrame, generateComposite } from './utils/imageProcessing';
+import { useAnimationClock } from './hooks/useAnimationClock';
+import { useLut } from './hooks/useLut';
+import { usePrintQueue } from './hooks/usePrintQueue';
+import { useProcessedPreview, ProcessedPreview } from './hooks/useProcessedPreview';
+import { AppState, StreamStatus, FilterType, FrameBackground, FrameStyle, GridType, PhotoConfig, AnimationType, MaskType, MaskAnchor, FaceData, CustomMaskConfig, CustomFilterSettings, CustomLutConfig, FilmEffects, ChromaKeyConfig, CustomBackground, CustomLayout, DateFormat, FooterConfig, PrintJob, PrintJobStatus, PrintSettings } from './types';
+import { DEFAULT_CONFIG, DEFAULT_CUSTOM_FILTER, GRID_CONFIGS, FILTERS, CUSTOM_FILTER_CONTROLS, LUT_PRESETS, CUSTOM_LUT_ID, FRAMES, FRAME_STYLES, FRAME_IMAGE_MAX_SIZE, FOOTER_FONTS, DATE_FORMATS, PAPER_SIZES, PRINT_DPIS, PRINT_BLEEDS, PRINT_MAX_COPIES, PRINT_JOB_STATUS_LABELS, LOGO_MAX_SIZE, TIMERS, FILM_EFFECTS, BACKGROUNDS, CUSTOM_BACKGROUND_MAX_SIZE, ANIMATIONS, MASKS, CUSTOM_MASK_ANCHORS, CUSTOM_MASK_MAX_SIZE, ASPECT_RATIOS, ANIMATED_IMAGE_MAX_SIZE, ANIMATED_IMAGE_FPS, getAspectRatioValue } from './constants';
+import { CaptureOptions, captureFrame, captureStill, drawFilmEffects, generateComposite, hasFilmEffects, loadImageFile } from './utils/imageProcessing';
+import { cropFace, getCoverCrop, getMaskDefinition, layoutMask, preloadMaskImage } from './utils/masks';
+import { loadStored, saveStored } from './utils/storage';
+import { downloadBlob, downloadUrl } from './utils/download';
+import { getContrastTextColor, getFrameBackgroundStyle, getImageTone } from './utils/frames';
+import { renderPrintSheet } from './utils/print';
+import { QrMatrix, generateCompositePdf } from './utils/pdf';
+import { ColorMatrix, getFilterSteps, toSvgMatrixValues } from './utils/filters';
+import { parseCubeLut } from './utils/lut';
+import { getBackgroundSource, preloadBackground } from './utils/chromaKey';
+import { createAnimatedImageSource, drawAnimatedFrame } from './utils/animations';
+import { encodeGif } from './utils/gif';
+import { encodeApng } from './utils/apng';
+import { encodeVideo } from './utils/video';
+import { fitTemplate, getClosestPrintSize, getConfigLayout, getConfigPrintLayout, getFooterTextColor, getPrintSizeUnits } from './utils/layouts';
 import { Icons } from './components/Icon';
+import { LayoutPreview } from './components/LayoutPreview';
+import { LayoutEditor } from './components/LayoutEditor';
 
 // Declare globals for CDN libraries
 declare const QRCode: any;
 
-// --- Shared Logic for Overlays ---
-const getOverlayStyle = (faceData: FaceData | null | undefined, containerRatio: number): React.CSSProperties => {
-  // Default center position if no face found (Fallback Mode)
-  let style: React.CSSProperties = {
-     left: '50%',
-     top: '30%',
-     transform: 'translate(-50%, -50%)',
-     opacity: 0.8, // Visible by default
-     transition: 'left 0.1s linear, top 0.1s linear, transform 0.1s linear' // Faster transition
-  };
+// --- Mask Overlay ---
+// Renders a MaskDefinition as SVG from the same layout the capture canvas uses (utils/masks),
+// so the preview matches the saved photo. The viewBox is the container size in pixels.
+const MaskOverlay: React.FC<{ type: MaskType, faces: FaceData[], containerWidth: number, containerHeight: number, customMask?: CustomMaskConfig | null }> = ({ type, faces, containerWidth, containerHeight, customMask }) => {
+  const definition = getMaskDefinition(type, customMask);
+  const time = useAnimationClock(!!definition?.animation);
+  const idPrefix = useId().replace(/:/g, '');
+  if (!definition || !containerWidth || !containerHeight) return null;
 
-  if (faceData && faceData.videoWidth && faceData.videoHeight) {
-    const videoRatio = faceData.videoWidth / faceData.videoHeight;
-    
-    let normalizedX = faceData.x;
-    let normalizedY = faceData.y;
-    // Scale hearts/stars based on face width (0.35 is a reference average face width)
-    let scale = faceData.width / 0.35; 
-
-    // We need to know the visible dimensions of the face in the container to position Y correctly
-    let visibleH = faceData.height;
-
-    // Calculate Crop Logic (object-fit: cover)
-    if (videoRatio > containerRatio) {
-       // Video is Wider: Crop Left/Right
-       const visibleFraction = (faceData.videoHeight * containerRatio) / faceData.videoWidth;
-       const offset = (1 - visibleFraction) / 2;
-       
-       normalizedX = (faceData.x - offset) / visibleFraction;
-       // normalizedY remains same (0-1 maps to 0-1)
-       // visibleH remains same (relative to height which is full)
-    } 
-    else if (videoRatio < containerRatio) {
-       // Video is Taller: Crop Top/Bottom
-       const visibleFraction = (faceData.videoWidth / containerRatio) / faceData.videoHeight;
-       const offset = (1 - visibleFraction) / 2;
-       
-       normalizedY = (faceData.y - offset) / visibleFraction;
-       // Adjust visible height relative to the cropped container height
-       visibleH = faceData.height / visibleFraction;
-    }
+  // Faces are normalized to the full video, the container shows an object-fit: cover crop of it
+  const containerRatio = containerWidth / containerHeight;
+  const visibleFaces = faces.map(face => cropFace(face, getCoverCrop(face.videoWidth / face.videoHeight, containerRatio)));
+  const items = layoutMask(definition, visibleFaces, containerWidth, containerHeight, time);
 
-    // NOTE: We do NOT mirror X here (e.g. 1-x). 
-    // Instead we apply scaleX(-1) to the container div in the JSX.
-    // This ensures coordinate systems align perfectly with the video element.
-    const finalLeft = normalizedX * 100;
-    
-    // Y Correction: Place halo above the head
-    // Center of Halo = Face Center Y - (Face Height * 0.6)
-    // This places the center of the hearts roughly at the top of the forehead
-    const finalTop = (normalizedY - (visibleH * 0.6)) * 100;
-
-    style = {
-        left: `${finalLeft}%`,
-        top: `${finalTop}%`,
-        transform: `translate(-50%, -50%) scale(${scale})`,
-        opacity: 1,
-        transition: 'left 0.05s linear, top 0.05s linear, transform 0.05s linear' // Snappier
-    };
-  }
-  return style;
-};
-
-// --- Hearts Overlay Component ---
-const HeartsOverlay: React.FC<{ faceData?: FaceData | null, containerRatio: number }> = ({ faceData, containerRatio }) => {
-  const HeartSVG = ({ size, rotate, delay, color }: { size: number, rotate: number, delay: string, color: string }) => (
-    <svg 
-      width={size} 
-      height={size} 
-      viewBox="0 0 24 24" 
-      fill="currentColor"
-      className="drop-shadow-[0_0_4px_rgba(255,105,180,0.5)] animate-float-heart"
-      style={{ 
-        transform: `rotate(${rotate}deg)`,
-        animationDelay: delay,
-        color: color
-      }}
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none overflow-visible"
+      viewBox={`0 0 ${containerWidth} ${containerHeight}`}
     >
-      <path d="M12 21.35l-1.45-1.32C5.4 15.36 2 12.28 2 8.5 2 5.42 4.42 3 7.5 3c1.74 0 3.41.81 4.5 2.09C13.09 3.81 14.76 3 16.5 3 19.58 3 22 5.42 22 8.5c0 3.78-3.4 6.86-8.55 11.54L12 21.35z" />
+      <defs>
+        {items.map((item, i) => item.glow && (
+          <filter key={i} id={`${idPrefix}-glow-${i}`} x="-50%" y="-50%" width="200%" height="200%">
+            {/* stdDeviation is half the canvas shadowBlur */}
+            <feDropShadow dx="0" dy="0" stdDeviation={item.glow.blur / 2} floodColor={item.glow.color} />
+          </filter>
+        ))}
+      </defs>
+      {items.map((item, i) => {
+        const { viewBox, paths, image } = item.graphic;
+        return (
+          // Same transform chain as drawMask, including the flip back inside the mirrored view
+          <g
+            key={i}
+            transform={`translate(${item.x} ${item.y}) rotate(${item.rotation}) scale(-1 1)`}
+            opacity={item.opacity}
+            filter={item.glow ? `url(#${idPrefix}-glow-${i})` : undefined}
+          >
+            <g transform={`scale(${item.width / viewBox.width} ${item.height / viewBox.height}) translate(${-viewBox.width / 2} ${-viewBox.height / 2})`}>
+              {image && (
+                <image href={image} width={viewBox.width} height={viewBox.height} preserveAspectRatio="none" />
+              )}
+              {paths?.map((path, j) => (
+                <path key={j} d={path.d} fill={path.fill ?? item.color ?? '#000000'} />
+              ))}
+            </g>
+          </g>
+        );
+      })}
     </svg>
   );
+};
 
-  const style = getOverlayStyle(faceData, containerRatio);
-  
-  const darkPink = '#DB2777'; 
-  const lightPink = '#FBCFE8'; 
-  const midPink = '#F472B6'; 
+// --- Color Filter ---
+// SVG version of the capture filter engine (utils/filters): the same color matrices, clamped
+// per step and blended by intensity, so the live preview looks exactly like the saved photo.
+const ColorFilterDefs: React.FC<{ id: string, steps: ColorMatrix[], intensity: number }> = ({ id, steps, intensity }) => (
+  <svg className="absolute w-0 h-0" aria-hidden="true">
+    <filter id={id} colorInterpolationFilters="sRGB">
+      {steps.map((matrix, i) => (
+        <feColorMatrix key={i} type="matrix" values={toSvgMatrixValues(matrix)} result={`${id}-step-${i}`} />
+      ))}
+      {intensity < 1 && (
+        <feComposite
+          in={`${id}-step-${steps.length - 1}`}
+          in2="SourceGraphic"
+          operator="arithmetic"
+          k1={0}
+          k2={intensity}
+          k3={1 - intensity}
+          k4={0}
+        />
+      )}
+    </filter>
+  </svg>
+);
 
-  return (
-    <div 
-      className="absolute pointer-events-none flex justify-center overflow-visible"
-      style={{ width: '240px', height: '240px', ...style }}
-    >
-      <div className="relative w-full h-full">
-         <div className="absolute" style={{ left: '20%', top: '60%', transform: 'translate(-50%, -50%)' }}>
-            <HeartSVG size={20} rotate={-35} delay="0s" color={darkPink} />
-         </div>
-         <div className="absolute" style={{ left: '35%', top: '45%', transform: 'translate(-50%, -50%)' }}>
-            <HeartSVG size={28} rotate={-15} delay="0.4s" color={lightPink} />
-         </div>
-         <div className="absolute" style={{ left: '50%', top: '35%', transform: 'translate(-50%, -50%)' }}>
-            <HeartSVG size={36} rotate={0} delay="0.8s" color={midPink} />
-         </div>
-         <div className="absolute" style={{ left: '65%', top: '45%', transform: 'translate(-50%, -50%)' }}>
-            <HeartSVG size={28} rotate={15} delay="0.2s" color={darkPink} />
-         </div>
-         <div className="absolute" style={{ left: '80%', top: '60%', transform: 'translate(-50%, -50%)' }}>
-            <HeartSVG size={20} rotate={35} delay="0.6s" color={lightPink} />
-         </div>
-      </div>
-    </div>
-  );
-};
+// --- Film Effects Overlay ---
+// Draws the capture's film layer (drawFilmEffects) on a transparent canvas above the video.
+// Not mirrored, like in the saved photo, so the date stamp reads correctly.
+const FILM_OVERLAY_FPS = 12;
 
-// --- Stars Overlay Component ---
-const StarsOverlay: React.FC<{ faceData?: FaceData | null, containerRatio: number }> = ({ faceData, containerRatio }) => {
-  const StarSVG = ({ size, rotate, delay, color }: { size: number, rotate: number, delay: string, color: string }) => (
-    <svg 
-      width={size} 
-      height={size} 
-      viewBox="0 0 24 24" 
-      fill="currentColor"
-      className="drop-shadow-[0_0_4px_rgba(250,204,21,0.6)] animate-float-heart" // Reuse float animation
-      style={{ 
-        transform: `rotate(${rotate}deg)`,
-        animationDelay: delay,
-        color: color
-      }}
-    >
-       <path d="M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01L12 2z" />
-    </svg>
-  );
+const FilmEffectsOverlay: React.FC<{ effects: FilmEffects, width: number, height: number }> = ({ effects, width, height }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
 
-  const style = getOverlayStyle(faceData, containerRatio);
-  
-  const c1 = '#FDE047'; // Yellow 300
-  const c2 = '#FEF08A'; // Yellow 200
-  const c3 = '#FCD34D'; // Amber 300
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !width || !height) return;
+    canvas.width = Math.round(width);
+    canvas.height = Math.round(height);
+
+    let raf: number;
+    let lastDraw = 0;
+    const draw = (now: number) => {
+      if (now - lastDraw >= 1000 / FILM_OVERLAY_FPS) {
+        lastDraw = now;
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        drawFilmEffects(ctx, canvas.width, canvas.height, effects, now / 1000);
+      }
+      raf = requestAnimationFrame(draw);
+    };
+    raf = requestAnimationFrame(draw);
 
-  return (
-    <div 
-      className="absolute pointer-events-none flex justify-center overflow-visible"
-      style={{ width: '240px', height: '240px', ...style }}
-    >
-      <div className="relative w-full h-full">
-         <div className="absolute" style={{ left: '15%', top: '65%', transform: 'translate(-50%, -50%)' }}>
-            <StarSVG size={24} rotate={-45} delay="0.1s" color={c1} />
-         </div>
-         <div className="absolute" style={{ left: '30%', top: '48%', transform: 'translate(-50%, -50%)' }}>
-            <StarSVG size={32} rotate={-20} delay="0.5s" color={c2} />
-         </div>
-         <div className="absolute" style={{ left: '50%', top: '35%', transform: 'translate(-50%, -50%)' }}>
-            <StarSVG size={44} rotate={0} delay="0.9s" color={c3} />
-         </div>
-         <div className="absolute" style={{ left: '70%', top: '48%', transform: 'translate(-50%, -50%)' }}>
-            <StarSVG size={32} rotate={20} delay="0.3s" color={c2} />
-         </div>
-         <div className="absolute" style={{ left: '85%', top: '65%', transform: 'translate(-50%, -50%)' }}>
-            <StarSVG size={24} rotate={45} delay="0.7s" color={c1} />
-         </div>
-      </div>
-    </div>
-  );
+    return () => cancelAnimationFrame(raf);
+  }, [effects, width, height]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full z-20 pointer-events-none" />;
 };
 
 // Helper component for individual video feeds
 const VideoFeed: React.FC<{
   stream: MediaStream | null;
-  filter: string;
+  filter: FilterType;
+  filterIntensity?: number;
+  customFilter?: CustomFilterSettings;
+  preview?: ProcessedPreview; // Chroma key and LUT, processed once for every feed
+  filmEffects?: FilmEffects;
   className?: string;
   videoRef?: React.RefObject<HTMLVideoElement>;
   animation?: AnimationType;
   mask?: MaskType;
-  faceData?: FaceData | null;
-}> = ({ stream, filter, className, videoRef, animation, mask, faceData }) => {
+  customMask?: CustomMaskConfig | null;
+  faces?: FaceData[];
+  aspectRatio?: number; // Expected container ratio, used until the real size is measured
+}> = ({ stream, filter, filterIntensity = 1, customFilter, preview, filmEffects, className, videoRef, animation, mask, customMask, faces = [], aspectRatio = 4/3 }) => {
   const internalRef = useRef<HTMLVideoElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const ref = videoRef || internalRef;
-  const [containerRatio, setContainerRatio] = useState(4/3);
+  const previewCanvasRef = useRef<HTMLCanvasElement>(null);
+  const showCanvasPreview = !!preview?.enabled;
+  const filterId = `color-filter-${useId().replace(/:/g, '')}`;
+  const filterSteps = getFilterSteps(filter, customFilter);
+  const hasFilter = filterSteps.length > 0 && filterIntensity > 0;
+  const filterStyle = hasFilter ? `url(#${filterId})` : 'none';
+  // Fallback size keeps the expected ratio until the container is measured
+  const [containerSize, setContainerSize] = useState({ width: aspectRatio * 100, height: 100 });
 
   useEffect(() => {
     const el = ref.current;
@@ -200,21 +177,37 @@ const VideoFeed: React.FC<{
     }
   }, [stream, ref]);
 
-  // Update container aspect ratio on resize for accurate tracking
+  // Show the shared chroma key/LUT frame while either is active
+  useEffect(() => {
+    const canvas = previewCanvasRef.current;
+    if (!preview?.enabled || !canvas) return;
+    return preview.attach(canvas);
+  }, [preview]);
+
+  // Update container size on resize for accurate tracking.
+  // The container also changes shape when the capture aspect ratio is switched, not just on window resize.
+  // Layout size (offsetWidth) is used so the CSS effect transforms don't skew the measurement.
   useEffect(() => {
     const updateRatio = () => {
       if (containerRef.current) {
-        const { width, height } = containerRef.current.getBoundingClientRect();
+        const { offsetWidth: width, offsetHeight: height } = containerRef.current;
         if (width && height) {
-          setContainerRatio(width / height);
+          setContainerSize({ width, height });
+        } else {
+          setContainerSize({ width: aspectRatio * 100, height: 100 });
         }
       }
     };
     
     updateRatio();
     window.addEventListener('resize', updateRatio);
-    return () => window.removeEventListener('resize', updateRatio);
-  }, []);
+    const observer = typeof ResizeObserver !== 'undefined' ? new ResizeObserver(updateRatio) : null;
+    if (observer && containerRef.current) observer.observe(containerRef.current);
+    return () => {
+      window.removeEventListener('resize', updateRatio);
+      observer?.disconnect();
+    };
+  }, [aspectRatio]);
 
   // Determine animation class
   const animClass = animation && animation !== AnimationType.NONE ? `anim-${animation}` : '';
@@ -224,26 +217,33 @@ const VideoFeed: React.FC<{
       ref={containerRef}
       className={`w-full h-full overflow-hidden relative ${animClass} ${className || ''}`}
     >
+      {hasFilter && <ColorFilterDefs id={filterId} steps={filterSteps} intensity={Math.min(1, filterIntensity)} />}
       <video
         ref={ref}
         autoPlay
         playsInline
         muted
         className="w-full h-full object-cover hover-scale-mirror"
-        style={{ filter, WebkitFilter: filter }}
+        style={{ filter: filterStyle, WebkitFilter: filterStyle }}
       />
+      {showCanvasPreview && (
+        <canvas
+          ref={previewCanvasRef}
+          className="absolute inset-0 w-full h-full object-cover hover-scale-mirror"
+          style={{ filter: filterStyle, WebkitFilter: filterStyle }}
+        />
+      )}
       
       {/* Overlay Masks */}
       {/* We apply scale-x-[-1] to matches the video mirror effect */}
-      {mask === MaskType.HEARTS && (
+      {mask && mask !== MaskType.NONE && (
         <div className="absolute inset-0 z-10 pointer-events-none" style={{ transform: 'scaleX(-1)' }}>
-          <HeartsOverlay faceData={faceData} containerRatio={containerRatio} />
+          <MaskOverlay type={mask} customMask={customMask} faces={faces} containerWidth={containerSize.width} containerHeight={containerSize.height} />
         </div>
       )}
-      {mask === MaskType.STARS && (
-        <div className="absolute inset-0 z-10 pointer-events-none" style={{ transform: 'scaleX(-1)' }}>
-          <StarsOverlay faceData={faceData} containerRatio={containerRatio} />
-        </div>
+
+      {hasFilmEffects(filmEffects) && (
+        <FilmEffectsOverlay effects={filmEffects} width={containerSize.width} height={containerSize.height} />
       )}
     </div>
   );
@@ -252,15 +252,32 @@ const VideoFeed: React.FC<{
 const App: React.FC = () => {
   // Core State
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
-  const [config, setConfig] = useState<PhotoConfig>(DEFAULT_CONFIG);
+  // Uploads (sticker, LUT, backgrounds), custom layouts, the frame, footer branding and print settings are kept locally so they survive a reload
+  const [config, setConfig] = useState<PhotoConfig>(() => ({
+    ...DEFAULT_CONFIG,
+    customMask: loadStored<CustomMaskConfig | null>('custom-mask', null),
+    customLut: loadStored<CustomLutConfig | null>('custom-lut', null),
+    customBackgrounds: loadStored<CustomBackground[]>('custom-backgrounds', []),
+    customLayouts: loadStored<CustomLayout[]>('custom-layouts', []),
+    frame: { ...DEFAULT_CONFIG.frame, ...loadStored<Partial<FrameBackground>>('frame', {}) },
+    footer: { ...DEFAULT_CONFIG.footer, ...loadStored<Partial<FooterConfig>>('footer', {}) },
+    print: { ...DEFAULT_CONFIG.print, ...loadStored<Partial<PrintSettings>>('print', {}) },
+  }));
+  const [editingLayout, setEditingLayout] = useState<CustomLayout | null>(null);
   const [photos, setPhotos] = useState<string[]>([]);
   const [compositeUrl, setCompositeUrl] = useState<string | null>(null);
   const [showDownloadFeedback, setShowDownloadFeedback] = useState(false);
   const [feedbackMessage, setFeedbackMessage] = useState("");
+  const [isExportingPrint, setIsExportingPrint] = useState(false);
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
+  const [gifProgress, setGifProgress] = useState<number | null>(null);
+  const [apngProgress, setApngProgress] = useState<number | null>(null);
   
   // Video and Recording State
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [videoMimeType, setVideoMimeType] = useState<string>('video/mp4');
+  const [videoProgress, setVideoProgress] = useState<number | null>(null); // Encoding, 0-1
+  const [stripFrames, setStripFrames] = useState<HTMLImageElement[]>([]); // Composites of the moving strip, shared by the GIF/APNG exports
   const recordedFramesRef = useRef<string[][]>([]); // Array of arrays (clips per photo)
   const currentClipRef = useRef<string[]>([]); // Current photo's frames
   const recordingIntervalRef = useRef<number | null>(null);
@@ -268,15 +285,61 @@ const App: React.FC = () => {
   // Timers and Refs
   const [countdown, setCountdown] = useState<number>(0);
   const [flash, setFlash] = useState(false);
-  const { videoRef, startCamera, permissionGranted, error, stream } = useWebcam();
+  const { videoRef, startCamera, permissionGranted, error, stream, streamStatus, devices, deviceId, setDeviceId } = useWebcam();
+  const [isReconnecting, setIsReconnecting] = useState(false);
   
   // Face Detection - Active if ANY mask is enabled and we are in active modes
   const isDetectionActive = config.maskType !== MaskType.NONE && (appState === AppState.SETUP || appState === AppState.CAPTURE || appState === AppState.COUNTDOWN);
-  const faceData = useFaceDetection(videoRef, isDetectionActive);
+  const faces = useFaceDetection(videoRef, isDetectionActive);
+
+  // Persist the custom sticker and decode it ahead of the first capture
+  useEffect(() => {
+    saveStored('custom-mask', config.customMask);
+    if (config.customMask) preloadMaskImage(config.customMask.image);
+  }, [config.customMask]);
+
+  const lut = useLut(config.filterType, config.lutId, config.customLut);
+  const processedPreview = useProcessedPreview(videoRef, config.filterType === FilterType.LUT ? lut : null, config.filterIntensity, config.chromaKey, config.customBackgrounds);
+  const printQueue = usePrintQueue();
+
+  useEffect(() => {
+    saveStored('custom-lut', config.customLut);
+  }, [config.customLut]);
+
+  useEffect(() => {
+    saveStored('custom-backgrounds', config.customBackgrounds);
+  }, [config.customBackgrounds]);
+
+  useEffect(() => {
+    saveStored('custom-layouts', config.customLayouts);
+  }, [config.customLayouts]);
+
+  useEffect(() => {
+    saveStored('frame', config.frame);
+  }, [config.frame]);
+
+  useEffect(() => {
+    saveStored('footer', config.footer);
+  }, [config.footer]);
+
+  useEffect(() => {
+    saveStored('print', config.print);
+  }, [config.print]);
+
+  // Decode the scene ahead of the first capture
+  useEffect(() => {
+    if (!config.chromaKey.enabled) return;
+    const src = getBackgroundSource(config.chromaKey.backgroundId, config.customBackgrounds);
+    if (src) preloadBackground(src);
+  }, [config.chromaKey, config.customBackgrounds]);
 
   // References for timers to allow cancellation
   const timerRef = useRef<number | null>(null);
   const delayRef = useRef<number | null>(null);
+  // Bumped on every pause, so a still capture in flight can tell the sequence was interrupted
+  const captureEpochRef = useRef(0);
+  const cameraLiveRef = useRef(true);
+  const photosRef = useRef<string[]>([]);
 
   // Audio
   const { initAudio, playCountdown, playShutter, playSuccess, playClick } = useSound();
@@ -312,6 +375,8 @@ const App: React.FC = () => {
       setPhotos([]);
       setCompositeUrl(null);
       setVideoUrl(null);
+      setVideoProgress(null);
+      setStripFrames([]);
       recordedFramesRef.current = [];
       currentClipRef.current = [];
     }
@@ -329,11 +394,30 @@ const App: React.FC = () => {
   // We need a ref for takePhoto to avoid stale closures in the interval
   const takePhotoRef = useRef<() => void>(() => {});
   
-  // Keep faceData ref for capture
-  const faceDataRef = useRef<FaceData | null>(null);
+  // Keep faces ref for capture
+  const facesRef = useRef<FaceData[]>([]);
   useEffect(() => {
-    faceDataRef.current = faceData;
-  }, [faceData]);
+    facesRef.current = faces;
+  }, [faces]);
+
+  // Video clip frame: a moderate width (480px) balances quality and performance for the moving strip.
+  // Mask and face data are passed so the video matches the photo.
+  const captureClipFrame = useCallback((video: HTMLVideoElement) => captureFrame(video, {
+    filter: config.filterType,
+    filterIntensity: config.filterIntensity,
+    customFilter: config.customFilter,
+    lut,
+    filmEffects: config.filmEffects,
+    chromaKey: config.chromaKey,
+    customBackgrounds: config.customBackgrounds,
+    mask: config.maskType,
+    customMask: config.customMask,
+    faces: facesRef.current, // Use ref to get latest face data inside interval
+    targetWidth: 480, // Good enough for video composite
+    aspectRatio: getAspectRatioValue(config.aspectRatio),
+    mimeType: "image/jpeg",
+    quality: 0.85
+  }), [config.filterType, config.filterIntensity, config.customFilter, lut, config.filmEffects, config.chromaKey, config.customBackgrounds, config.maskType, config.customMask, config.aspectRatio]);
 
   const startCountdown = useCallback(() => {
     setCountdown(config.timerDuration);
@@ -353,17 +437,7 @@ const App: React.FC = () => {
       // Check if video is ready (readyState >= 2 means HAVE_CURRENT_DATA)
       if (videoRef.current && videoRef.current.readyState >= 2 && videoRef.current.videoWidth > 0) {
         // Capture frame for Video
-        // We use a moderate width (480px) to balance quality and performance for video frames
-        // We ensure mask and face data are passed so the video matches the photo
-        const frame = captureFrame(videoRef.current, {
-           filter: config.filterType,
-           mask: config.maskType,
-           faceData: faceDataRef.current, // Use ref to get latest face data inside interval
-           targetWidth: 480, // Good enough for video composite
-           mimeType: "image/jpeg",
-           quality: 0.85
-        });
-        currentClipRef.current.push(frame);
+        currentClipRef.current.push(captureClipFrame(videoRef.current));
         
         // Keep only maxFrames (matches timer duration)
         if (currentClipRef.current.length > maxFrames) {
@@ -388,7 +462,70 @@ const App: React.FC = () => {
         return prev - 1;
       });
     }, 1000);
-  }, [config.timerDuration, config.filterType, config.maskType, playCountdown, videoRef]);
+  }, [config.timerDuration, captureClipFrame, playCountdown, videoRef]);
+
+  // Halt the running countdown/recording without touching the photos taken so far
+  const pauseCaptureSequence = useCallback(() => {
+    captureEpochRef.current++;
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    if (recordingIntervalRef.current) {
+      clearInterval(recordingIntervalRef.current);
+      recordingIntervalRef.current = null;
+    }
+    if (delayRef.current) {
+      clearTimeout(delayRef.current);
+      delayRef.current = null;
+    }
+    // Frames of the interrupted shot may be black, discard them
+    currentClipRef.current = [];
+    setCountdown(0);
+  }, []);
+
+  // Camera dropped mid-session: pause, reconnect, then resume at the current shot
+  useEffect(() => {
+    if (appState !== AppState.COUNTDOWN) {
+      setIsReconnecting(false);
+      return;
+    }
+
+    if (streamStatus === StreamStatus.LIVE) {
+      if (isReconnecting) {
+        setIsReconnecting(false);
+        startCountdown();
+      }
+      return;
+    }
+
+    if (!isReconnecting) {
+      pauseCaptureSequence();
+      setIsReconnecting(true);
+    }
+
+    // A dead track needs a new stream right away. A muted one gets a grace period to recover by itself.
+    // Failed attempts land back on ENDED, which schedules the next retry.
+    let retryTimeout: number | null = null;
+    if (streamStatus === StreamStatus.ENDED) {
+      retryTimeout = window.setTimeout(() => startCamera(), 1000);
+    } else if (streamStatus === StreamStatus.MUTED) {
+      retryTimeout = window.setTimeout(() => startCamera(), 3000);
+    }
+
+    return () => {
+      if (retryTimeout) clearTimeout(retryTimeout);
+    };
+  }, [appState, streamStatus, isReconnecting, startCamera, startCountdown, pauseCaptureSequence]);
+
+  // Read by takePhoto after its await: while the camera is down, the effect above resumes the sequence
+  useEffect(() => {
+    cameraLiveRef.current = streamStatus === StreamStatus.LIVE && !isReconnecting;
+  }, [streamStatus, isReconnecting]);
+
+  useEffect(() => {
+    photosRef.current = photos;
+  }, [photos]);
 
   // Generate MP4/Video from recorded frames using MediaRecorder
   const generateVideo = useCallback(async (qrCodeDataUrl: string | null) => {
@@ -401,6 +538,7 @@ const App: React.FC = () => {
     if (minFrames <= 0) return;
 
     // We need to construct the composite frames first
+    const layout = getConfigLayout(config, getAspectRatioValue(config.aspectRatio));
     const videoFrames: HTMLImageElement[] = [];
 
     // Pre-generate composite frames
@@ -408,8 +546,9 @@ const App: React.FC = () => {
         const frameImages = clips.map(clip => clip[i]);
         const compositeDataUrl = await generateComposite(
             frameImages, 
-            config.gridType, 
-            config.frameColor, 
+            layout, 
+            config.frame, 
+            config.footer,
             qrCodeDataUrl
         );
         
@@ -425,6 +564,7 @@ const App: React.FC = () => {
     }
 
     if (videoFrames.length === 0) return;
+    setStripFrames(videoFrames);
 
     // Determine dimensions from first frame
     const rawWidth = videoFrames[0].width;
@@ -440,9 +580,53 @@ const App: React.FC = () => {
     canvas.height = height;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
-    
+
+    // Bake the strip animation into the video, timed from the start of playback
+    const animation = config.animationType;
+    const drawVideoFrame = (frame: HTMLImageElement, time: number) => {
+      if (animation === AnimationType.NONE) ctx.drawImage(frame, 0, 0, width, height);
+      else drawAnimatedFrame(ctx, frame, width, height, animation, time);
+    };
+
+    // FIX 2: Dynamic Interval to match requested timer duration
+    // Adjust playback speed so the total video length matches the timer duration (e.g. 3s),
+    // even if we dropped frames during capture.
+    const targetDurationMs = config.timerDuration * 1000;
+    // Animated strips are redrawn at the stream rate so the motion stays smooth between clip frames
+    const tickCount = animation === AnimationType.NONE
+      ? videoFrames.length
+      : Math.max(videoFrames.length, Math.round(config.timerDuration * 30));
+    const frameInterval = targetDurationMs / tickCount;
+    const getVideoFrame = (i: number) => videoFrames[Math.floor(i * videoFrames.length / tickCount)];
+    const videoBitsPerSecond = 3000000;
+
+    setVideoProgress(0);
+
+    // Encode offline with WebCodecs where available: exact timestamps, no waiting in real time
+    try {
+      const blob = await encodeVideo({
+        width,
+        height,
+        frameCount: tickCount,
+        delay: frameInterval,
+        renderFrame: i => {
+          drawVideoFrame(getVideoFrame(i), (i * frameInterval) / 1000);
+          return canvas;
+        },
+      }, videoBitsPerSecond, setVideoProgress);
+      if (blob) {
+        setVideoMimeType(blob.type);
+        setVideoUrl(URL.createObjectURL(blob));
+        setVideoProgress(null);
+        return;
+      }
+    } catch (err) {
+      console.warn("WebCodecs encoding failed, recording in real time instead", err);
+    }
+
+    // Otherwise replay the frames in real time through MediaRecorder
     // FIX 1: Draw first frame immediately to prevent blank start
-    ctx.drawImage(videoFrames[0], 0, 0, width, height);
+    drawVideoFrame(videoFrames[0], 0);
 
     // Setup MediaRecorder
     // Prefer MP4, fallback to WebM
@@ -464,7 +648,7 @@ const App: React.FC = () => {
 
     // Use 30 FPS stream for recorder, but we will feed it at our own pace
     const stream = canvas.captureStream(30); 
-    const recorder = new MediaRecorder(stream, { mimeType: selectedMimeType, videoBitsPerSecond: 3000000 });
+    const recorder = new MediaRecorder(stream, { mimeType: selectedMimeType, videoBitsPerSecond });
     const chunks: BlobPart[] = [];
 
     recorder.ondataavailable = (e) => {
@@ -475,6 +659,7 @@ const App: React.FC = () => {
       const blob = new Blob(chunks, { type: selectedMimeType });
       const url = URL.createObjectURL(blob);
       setVideoUrl(url);
+      setVideoProgress(null);
 
       // Cleanup stream tracks
       stream.getTracks().forEach(track => track.stop());
@@ -485,16 +670,11 @@ const App: React.FC = () => {
     // Small delay to ensure recorder is ready
     await new Promise(resolve => setTimeout(resolve, 100));
 
-    // FIX 2: Dynamic Interval to match requested timer duration
-    // Adjust playback speed so the total video length matches the timer duration (e.g. 3s),
-    // even if we dropped frames during capture.
-    const targetDurationMs = config.timerDuration * 1000;
-    const frameInterval = targetDurationMs / videoFrames.length;
-
     const startTime = performance.now();
 
-    for (let i = 0; i < videoFrames.length; i++) {
-      ctx.drawImage(videoFrames[i], 0, 0, width, height);
+    for (let i = 0; i < tickCount; i++) {
+      drawVideoFrame(getVideoFrame(i), (i * frameInterval) / 1000);
+      setVideoProgress((i + 1) / tickCount);
       
       // Calculate target time for the end of this frame
       const targetTime = startTime + ((i + 1) * frameInterval);
@@ -520,11 +700,12 @@ const App: React.FC = () => {
       // 1. Generate QR Code Data URL
       let qrCodeDataUrl = null;
       if (typeof QRCode !== 'undefined') {
-         qrCodeDataUrl = await QRCode.toDataURL(window.location.href, { margin: 1, width: 100, color: { dark: config.frameColor === FrameColor.BLACK ? '#FFFFFF' : '#000000', light: '#00000000' } });
+         qrCodeDataUrl = await QRCode.toDataURL(window.location.href, { margin: 1, width: 100, color: { dark: getContrastTextColor(config.frame), light: '#00000000' } });
       }
 
       // 2. Generate Strip
-      const result = await generateComposite(finalPhotos, config.gridType, config.frameColor, qrCodeDataUrl);
+      const layout = getConfigLayout(config, getAspectRatioValue(config.aspectRatio));
+      const result = await generateComposite(finalPhotos, layout, config.frame, config.footer, qrCodeDataUrl);
       setCompositeUrl(result);
       
       // 3. Generate Video (Moving Strip)
@@ -537,58 +718,92 @@ const App: React.FC = () => {
     }
   }, [config, playSuccess, generateVideo]);
 
-  const takePhoto = useCallback(() => {
-    if (videoRef.current) {
+  const takePhoto = useCallback(async () => {
+    const video = videoRef.current;
+    if (video) {
       playShutter(); 
       setFlash(true);
       setTimeout(() => setFlash(false), 200);
 
+      // Stop recording for this shot right at the shutter, the still may take a moment to arrive
+      const wasRecording = recordingIntervalRef.current !== null;
+      if (recordingIntervalRef.current) {
+        clearInterval(recordingIntervalRef.current);
+        recordingIntervalRef.current = null;
+      }
+
+      // Append the shutter frame to the end of the video clip, at the clip's size (the still is
+      // full resolution). We add it multiple times to create a "freeze frame" effect at the end
+      if (wasRecording && currentClipRef.current.length > 0) {
+         const freezeFrames = 5; // Adds ~0.5s freeze at 10fps playback equivalent
+         const shutterFrame = captureClipFrame(video);
+         for(let i=0; i<freezeFrames; i++) {
+             currentClipRef.current.push(shutterFrame);
+         }
+      }
+
+      const epoch = captureEpochRef.current;
+      const stillOptions: CaptureOptions = {
+          filter: config.filterType,
+          filterIntensity: config.filterIntensity,
+          customFilter: config.customFilter,
+          lut,
+          filmEffects: config.filmEffects,
+          chromaKey: config.chromaKey,
+          customBackgrounds: config.customBackgrounds,
+          mask: config.maskType,
+          customMask: config.customMask,
+          faces: facesRef.current,
+          aspectRatio: getAspectRatioValue(config.aspectRatio)
+      };
+
+      let photoData: string | null = null;
       try {
-        // Capture High-Res Photo immediately to sync shutter sound and visual
-        // No targetWidth means use full video resolution
-        const photoData = captureFrame(videoRef.current, {
-            filter: config.filterType,
-            mask: config.maskType,
-            faceData: faceDataRef.current
-        });
-        
-        // Stop recording for this shot
-        if (recordingIntervalRef.current) {
-          clearInterval(recordingIntervalRef.current);
-          recordingIntervalRef.current = null;
-          
-          // Append the actual photo frame to the end of the video clip
-          // We add it multiple times to create a "freeze frame" effect at the end
-          if (currentClipRef.current.length > 0) {
-             const freezeFrames = 5; // Adds ~0.5s freeze at 10fps playback equivalent
-             for(let i=0; i<freezeFrames; i++) {
-                 currentClipRef.current.push(photoData);
-             }
-             recordedFramesRef.current.push([...currentClipRef.current]);
-          }
+        // Capture High-Res Photo: sensor resolution through ImageCapture where supported,
+        // otherwise the full video resolution (no targetWidth)
+        photoData = await captureStill(video, stream?.getVideoTracks()[0], stillOptions);
+      } catch (err) {
+        console.warn("Still capture failed, using the video frame", err);
+        try {
+          photoData = captureFrame(video, stillOptions);
+        } catch (fallbackErr) {
+          console.error("Capture failed:", fallbackErr);
         }
+      }
 
-        setPhotos(prev => {
-          const newPhotos = [...prev, photoData];
-          const targetCount = GRID_CONFIGS[config.gridType].count;
-          
-          if (newPhotos.length >= targetCount) {
-             setTimeout(() => {
-               processResult(newPhotos);
-             }, 500);
-             return newPhotos;
-          } else {
-            delayRef.current = window.setTimeout(() => {
-              startCountdown();
-            }, 1500);
-            return newPhotos;
-          }
-        });
-      } catch (err) {
-        console.error("Capture failed:", err);
+      // The camera dropped while the still was on its way: reconnecting takes this shot again
+      if (captureEpochRef.current !== epoch || !cameraLiveRef.current) return;
+
+      if (photoData === null) {
+        // Take this shot again rather than leaving the session waiting
+        showFeedback("The photo could not be taken, trying again.");
+        currentClipRef.current = [];
+        delayRef.current = window.setTimeout(() => {
+          startCountdown();
+        }, 1500);
+        return;
+      }
+
+      if (wasRecording && currentClipRef.current.length > 0) {
+         recordedFramesRef.current.push([...currentClipRef.current]);
+      }
+
+      const newPhotos = [...photosRef.current, photoData];
+      photosRef.current = newPhotos;
+      setPhotos(newPhotos);
+      const targetCount = getConfigLayout(config, getAspectRatioValue(config.aspectRatio)).photos.length;
+
+      if (newPhotos.length >= targetCount) {
+         setTimeout(() => {
+           processResult(newPhotos);
+         }, 500);
+      } else {
+        delayRef.current = window.setTimeout(() => {
+          startCountdown();
+        }, 1500);
       }
     }
-  }, [config, playShutter, startCountdown, videoRef, processResult]);
+  }, [config, lut, stream, playShutter, captureClipFrame, startCountdown, videoRef, processResult]);
 
   useEffect(() => {
     takePhotoRef.current = takePhoto;
@@ -598,51 +813,289 @@ const App: React.FC = () => {
     setPhotos([]);
     setCompositeUrl(null);
     setVideoUrl(null);
+    setVideoProgress(null);
+    setStripFrames([]);
     recordedFramesRef.current = [];
     setAppState(AppState.SETUP);
   };
 
+  // Message shown at the top of the screen for a few seconds
+  const showFeedback = (message: string) => {
+    setFeedbackMessage(message);
+    setShowDownloadFeedback(true);
+    setTimeout(() => setShowDownloadFeedback(false), 4000);
+  };
+
   const downloadImage = () => {
     if (compositeUrl) {
-      const link = document.createElement('a');
-      link.href = compositeUrl;
-      link.download = `lets-take-a-pic-${Date.now()}.png`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-
-      setFeedbackMessage("Your photo strip is downloading successfully.");
-      setShowDownloadFeedback(true);
-      setTimeout(() => setShowDownloadFeedback(false), 4000);
+      downloadUrl(compositeUrl, `lets-take-a-pic-${Date.now()}.png`);
+
+      showFeedback("Your photo strip is downloading successfully.");
+    }
+  };
+
+  const updatePrint = (changes: Partial<PrintSettings>) => {
+    setConfig(c => ({ ...c, print: { ...c.print, ...changes } }));
+  };
+
+  const downloadPrintFile = async () => {
+    if (!compositeUrl || isExportingPrint) return;
+    setIsExportingPrint(true);
+    try {
+      const { png } = await renderPrintSheet(compositeUrl, config.print);
+      downloadBlob(png, `lets-take-a-pic-print-${config.print.paperSize}-${config.print.dpi}dpi-${Date.now()}.png`);
+
+      showFeedback("Your print file is downloading successfully.");
+    } catch (err) {
+      console.error("Print export failed", err);
+      showFeedback("The print file could not be created.");
+    } finally {
+      setIsExportingPrint(false);
+    }
+  };
+
+  const downloadPdf = async () => {
+    if (photos.length === 0 || isExportingPdf) return;
+    setIsExportingPdf(true);
+    try {
+      // The same QR code as the PNG, as modules so it stays sharp
+      let qr: QrMatrix | null = null;
+      if (typeof QRCode !== 'undefined') {
+        const { modules } = QRCode.create(window.location.href);
+        qr = Array.from({ length: modules.size }, (_, row) =>
+          Array.from({ length: modules.size }, (_, col) => !!modules.get(row, col))
+        );
+      }
+      const layout = getConfigPrintLayout(config, getAspectRatioValue(config.aspectRatio));
+      const blob = await generateCompositePdf(photos, layout, config.frame, config.footer, qr);
+      downloadBlob(blob, `lets-take-a-pic-${Date.now()}.pdf`);
+
+      showFeedback("Your PDF is downloading successfully.");
+    } catch (err) {
+      console.error("PDF export failed", err);
+      showFeedback("The PDF could not be created.");
+    } finally {
+      setIsExportingPdf(false);
     }
   };
 
+  // GIF and APNG are encoded when asked for, from the same composites as the video
+  const downloadAnimatedImage = async (format: 'gif' | 'apng') => {
+    const setProgress = format === 'gif' ? setGifProgress : setApngProgress;
+    if (stripFrames.length === 0 || (format === 'gif' ? gifProgress : apngProgress) !== null) return;
+    setProgress(0);
+    try {
+      const source = createAnimatedImageSource(stripFrames, config.animationType, config.timerDuration, ANIMATED_IMAGE_MAX_SIZE, ANIMATED_IMAGE_FPS);
+      const blob = format === 'gif' ? await encodeGif(source, setProgress) : await encodeApng(source, setProgress);
+      downloadBlob(blob, `lets-take-a-pic-moment-${Date.now()}.${format === 'gif' ? 'gif' : 'png'}`);
+
+      showFeedback(`Your ${format.toUpperCase()} is downloading successfully.`);
+    } catch (err) {
+      console.error(`${format.toUpperCase()} export failed`, err);
+      showFeedback(`The ${format.toUpperCase()} could not be created.`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handlePrint = async (jobs: PrintJob[]) => {
+    if (jobs.length === 0 || printQueue.isPrinting) return;
+    try {
+      await printQueue.printJobs(jobs);
+    } catch (err) {
+      console.error("Printing failed", err);
+      showFeedback("The print could not be prepared.");
+    }
+  };
+
+  const printComposite = () => {
+    if (!compositeUrl) return;
+    handlePrint([printQueue.addJob(compositeUrl, config.print)]);
+  };
+
+  const queueComposite = () => {
+    if (!compositeUrl) return;
+    printQueue.addJob(compositeUrl, config.print);
+    showFeedback("Added to the print queue.");
+  };
+
   const downloadVideo = () => {
     if (videoUrl) {
-      const link = document.createElement('a');
-      link.href = videoUrl;
       // Determine extension based on mime type
       const ext = videoMimeType.includes('mp4') ? 'mp4' : 'webm';
-      link.download = `lets-take-a-pic-moment-${Date.now()}.${ext}`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-
-      setFeedbackMessage("Your video moment is downloading successfully.");
-      setShowDownloadFeedback(true);
-      setTimeout(() => setShowDownloadFeedback(false), 4000);
+      downloadUrl(videoUrl, `lets-take-a-pic-moment-${Date.now()}.${ext}`);
+
+      showFeedback("Your video moment is downloading successfully.");
+    }
+  };
+
+  const handleCustomMaskUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    try {
+      const { dataUrl, width, height } = await loadImageFile(file, CUSTOM_MASK_MAX_SIZE);
+      setConfig(c => ({
+        ...c,
+        maskType: MaskType.CUSTOM,
+        customMask: {
+          image: dataUrl,
+          imageWidth: width,
+          imageHeight: height,
+          // Keep placement when replacing the image
+          anchor: c.customMask?.anchor ?? MaskAnchor.CROWN,
+          scale: c.customMask?.scale ?? 1,
+          offsetY: c.customMask?.offsetY ?? 0,
+        },
+      }));
+    } catch (err) {
+      console.warn("Failed to load sticker", err);
+      showFeedback("That image could not be loaded. Try a PNG or SVG file.");
+    }
+  };
+
+  const handleLutUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const data = await file.text();
+      // Validate now so a broken file never becomes the active filter
+      const parsed = parseCubeLut(data, file.name.replace(/\.cube$/i, ''));
+      setConfig(c => ({
+        ...c,
+        filterType: FilterType.LUT,
+        lutId: CUSTOM_LUT_ID,
+        customLut: { name: parsed.title, data },
+      }));
+    } catch (err) {
+      console.warn("Failed to load LUT", err);
+      showFeedback(`That LUT could not be loaded: ${err instanceof Error ? err.message : 'invalid file'}.`);
+    }
+  };
+
+  const handleBackgroundUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      // Photos don't need transparency, JPEG keeps them small enough to store
+      const { dataUrl } = await loadImageFile(file, CUSTOM_BACKGROUND_MAX_SIZE, 'image/jpeg', 0.85);
+      const background: CustomBackground = { id: `upload-${Date.now()}`, name: file.name.replace(/\.[^.]+$/, ''), image: dataUrl };
+      setConfig(c => ({
+        ...c,
+        customBackgrounds: [...c.customBackgrounds, background],
+        chromaKey: { ...c.chromaKey, enabled: true, backgroundId: background.id },
+      }));
+    } catch (err) {
+      console.warn("Failed to load background", err);
+      showFeedback("That image could not be loaded. Try a JPEG or PNG file.");
+    }
+  };
+
+  const removeCustomBackground = (id: string) => {
+    setConfig(c => ({
+      ...c,
+      customBackgrounds: c.customBackgrounds.filter(b => b.id !== id),
+      chromaKey: c.chromaKey.backgroundId === id ? { ...c.chromaKey, enabled: false, backgroundId: BACKGROUNDS[0].value } : c.chromaKey,
+    }));
+  };
+
+  const updateFrame = (changes: Partial<FrameBackground>) => {
+    setConfig(c => ({ ...c, frame: { ...c.frame, ...changes } }));
+  };
+
+  const handleFrameImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { dataUrl } = await loadImageFile(file, FRAME_IMAGE_MAX_SIZE, 'image/jpeg', 0.85);
+      updateFrame({ style: FrameStyle.IMAGE, image: dataUrl, imageTone: await getImageTone(dataUrl) });
+    } catch (err) {
+      console.warn("Failed to load frame image", err);
+      showFeedback("That image could not be loaded. Try a JPEG or PNG file.");
+    }
+  };
+
+  const updateFooter = (changes: Partial<FooterConfig>) => {
+    setConfig(c => ({ ...c, footer: { ...c.footer, ...changes } }));
+  };
+
+  const handleFooterLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { dataUrl, width, height } = await loadImageFile(file, LOGO_MAX_SIZE);
+      updateFooter({ logo: { image: dataUrl, width, height } });
+    } catch (err) {
+      console.warn("Failed to load logo", err);
+      showFeedback("That image could not be loaded. Try a PNG or SVG file.");
     }
   };
 
-  const getGridClasses = (type: GridType) => {
-    switch (type) {
-      case GridType.GRID_2X2: return 'grid-cols-2 grid-rows-2';
-      case GridType.STRIP_3: return 'grid-cols-1 grid-rows-3';
-      case GridType.STRIP_4: return 'grid-cols-1 grid-rows-4';
-      default: return 'grid-cols-1 grid-rows-1';
+  const updateChromaKey = (changes: Partial<ChromaKeyConfig>) => {
+    setConfig(c => ({ ...c, chromaKey: { ...c.chromaKey, ...changes } }));
+  };
+
+  const updateCustomMask = (changes: Partial<CustomMaskConfig>) => {
+    setConfig(c => (c.customMask ? { ...c, customMask: { ...c.customMask, ...changes } } : c));
+  };
+
+  // New layouts start from the current one, fitted to the print size closest to its shape
+  const openLayoutEditor = (layout?: CustomLayout) => {
+    if (layout) {
+      setEditingLayout(layout);
+    } else {
+      const current = getConfigLayout(config, getAspectRatioValue(config.aspectRatio));
+      const printSize = getClosestPrintSize(current.width / current.height);
+      const { width, height } = getPrintSizeUnits(printSize);
+      setEditingLayout({ id: `layout-${Date.now()}`, name: 'My layout', printSize, template: fitTemplate(current, width, height) });
     }
+    setAppState(AppState.LAYOUT_EDITOR);
+  };
+
+  const closeLayoutEditor = () => {
+    setEditingLayout(null);
+    setAppState(AppState.SETUP);
   };
 
+  const saveCustomLayout = (layout: CustomLayout) => {
+    setConfig(c => ({
+      ...c,
+      customLayouts: c.customLayouts.some(l => l.id === layout.id)
+        ? c.customLayouts.map(l => (l.id === layout.id ? layout : l))
+        : [...c.customLayouts, layout],
+      customLayoutId: layout.id,
+    }));
+    closeLayoutEditor();
+  };
+
+  const removeCustomLayout = (id: string) => {
+    setConfig(c => ({
+      ...c,
+      customLayouts: c.customLayouts.filter(l => l.id !== id),
+      customLayoutId: c.customLayoutId === id ? null : c.customLayoutId,
+    }));
+  };
+
+  const feedbackToast = showDownloadFeedback && (
+    <div className="fixed top-8 left-0 right-0 flex justify-center z-50 pointer-events-none">
+      <div className="bg-white text-booth-dark px-6 py-4 rounded-full shadow-2xl flex items-center gap-3 border border-gray-200 animate-bounce pointer-events-auto">
+        <div className="bg-green-500 rounded-full p-1">
+          <Icons.Check className="w-4 h-4 text-white" />
+        </div>
+        <span className="font-sans font-medium">{feedbackMessage}</span>
+      </div>
+    </div>
+  );
+
   // 1. Landing Screen
   if (appState === AppState.IDLE) {
     return (
@@ -693,59 +1146,53 @@ const App: React.FC = () => {
 
   // 2. Setup Screen
   if (appState === AppState.SETUP) {
-    const gridConfig = GRID_CONFIGS[config.gridType];
-    const isDarkFrame = config.frameColor === FrameColor.BLACK;
-    const textColor = isDarkFrame ? 'text-white' : 'text-booth-dark';
+    const photoRatio = getAspectRatioValue(config.aspectRatio);
+    const layout = getConfigLayout(config, photoRatio);
+    const selectedCustomLayout = config.customLayouts.find(l => l.id === config.customLayoutId);
+    const isTallLayout = layout.width / layout.height < 0.6;
+    const isPresetFrameColor = FRAMES.some(f => f.value === config.frame.color.toUpperCase());
     
     return (
       <div className="min-h-screen bg-gradient-to-br from-rose-50 via-white to-blue-50 flex flex-col md:flex-row">
+        {feedbackToast}
+
         {/* Left: Preview */}
         <div className="flex-1 relative flex flex-col items-center justify-center p-8 md:p-12 order-1 md:order-1 min-h-[500px]">
           <div 
-            className="relative w-full max-w-xl max-h-full shadow-2xl transition-all duration-300 border-[16px] flex flex-col overflow-hidden"
+            className="relative w-full max-h-full shadow-2xl transition-all duration-300 border-[16px] border-transparent overflow-hidden"
             style={{ 
-              borderColor: config.frameColor,
-              backgroundColor: config.frameColor,
-              aspectRatio: gridConfig.aspectRatio,
-              height: (config.gridType === GridType.STRIP_4 || config.gridType === GridType.STRIP_3) ? 'auto' : undefined,
-              maxWidth: (config.gridType === GridType.STRIP_4 || config.gridType === GridType.STRIP_3) ? '320px' : '576px'
+              // Painted here rather than by the preview, so the rim continues the background
+              ...getFrameBackgroundStyle(config.frame, layout.width / layout.height),
+              maxWidth: isTallLayout ? '320px' : '576px'
             }}
           >
-             <div 
-               className="w-full relative overflow-hidden transition-colors duration-300 p-4"
-               style={{ 
-                 aspectRatio: gridConfig.aspectRatio,
-                 backgroundColor: config.frameColor 
-               }}
-             >
-                <div className={`grid ${getGridClasses(config.gridType)} gap-4 w-full h-full`}>
-                  {Array.from({ length: gridConfig.count }).map((_, i) => (
-                    <div key={i} className="relative overflow-hidden w-full h-full bg-black/10 shadow-sm">
-                      <VideoFeed 
-                        stream={stream} 
-                        filter={config.filterType}
-                        animation={config.animationType}
-                        mask={config.maskType}
-                        faceData={faceData} // Pass tracked face data
-                        videoRef={i === 0 ? videoRef : undefined}
-                      />
-                    </div>
-                  ))}
-                </div>
-
-                 <div className="absolute top-3 right-3 z-20 pointer-events-none">
-                   <span className="inline-block bg-black/50 text-white text-[10px] px-2 py-0.5 rounded-full backdrop-blur-md uppercase tracking-wider">
-                     Preview
-                   </span>
-                 </div>
-             </div>
+             <LayoutPreview
+               template={layout}
+               frame={config.frame}
+               footer={config.footer}
+               paintFrame={false}
+               renderPhoto={(slot, i) => (
+                 <VideoFeed 
+                   stream={stream} 
+                   filter={config.filterType}
+                   filterIntensity={config.filterIntensity}
+                   customFilter={config.customFilter}
+                   preview={processedPreview}
+                   filmEffects={config.filmEffects}
+                   animation={config.animationType}
+                   mask={config.maskType}
+                   customMask={config.customMask}
+                   faces={faces} // Pass tracked face data
+                   aspectRatio={slot.width / slot.height}
+                   videoRef={i === 0 ? videoRef : undefined}
+                 />
+               )}
+             />
 
-             <div className="pt-6 pb-2 flex justify-center items-center mt-auto">
-               <div className="px-8 py-3">
-                 <span className={`font-serif italic ${config.gridType === GridType.STRIP_4 ? 'text-xl' : 'text-2xl'} ${textColor}`}>
-                   let's take a pic
-                 </span>
-               </div>
+             <div className="absolute top-3 right-3 z-40 pointer-events-none">
+               <span className="inline-block bg-black/50 text-white text-[10px] px-2 py-0.5 rounded-full backdrop-blur-md uppercase tracking-wider">
+                 Preview
+               </span>
              </div>
           </div>
         </div>
@@ -763,6 +1210,30 @@ const App: React.FC = () => {
              <h2 className="font-serif text-3xl italic">Settings</h2>
           </div>
 
+          {devices.length > 0 && (
+            <div className="space-y-3">
+              <label className="flex items-center text-xs font-semibold uppercase tracking-[0.2em] text-gray-400/80 mb-2">
+                <Icons.Camera className="w-4 h-4 mr-2"/> Camera
+              </label>
+              <select
+                value={deviceId ?? ''}
+                onChange={(e) => {
+                  // Changing the device restarts the stream in place, we stay in SETUP
+                  setDeviceId(e.target.value || null);
+                  playClick();
+                }}
+                className="w-full px-4 py-3 rounded-xl text-sm font-medium border-2 border-gray-100 bg-gray-50 text-gray-600 hover:border-gray-200 focus:outline-none focus:border-booth-dark"
+              >
+                <option value="">Default camera</option>
+                {devices.map((device, i) => (
+                  <option key={device.deviceId} value={device.deviceId}>
+                    {device.label || `Camera ${i + 1}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div className="space-y-3">
              <label className="flex items-center text-xs font-semibold uppercase tracking-[0.2em] text-gray-400/80 mb-2">
                <Icons.Grid className="w-4 h-4 mr-2"/> Layout
@@ -771,9 +1242,9 @@ const App: React.FC = () => {
                {Object.values(GridType).map((type) => (
                  <button
                    key={type}
-                   onClick={() => setConfig(c => ({...c, gridType: type}))}
+                   onClick={() => setConfig(c => ({...c, gridType: type, customLayoutId: null}))}
                    className={`px-4 py-3 rounded-xl text-sm font-medium transition-all border-2 flex items-center justify-center ${
-                     config.gridType === type 
+                     !config.customLayoutId && config.gridType === type 
                        ? 'border-booth-dark bg-booth-dark text-white' 
                        : 'border-gray-100 bg-gray-50 text-gray-600 hover:border-gray-200'
                    }`}
@@ -781,7 +1252,64 @@ const App: React.FC = () => {
                    {GRID_CONFIGS[type].label}
                  </button>
                ))}
+               {config.customLayouts.map((layout) => (
+                 <button
+                   key={layout.id}
+                   onClick={() => setConfig(c => ({...c, customLayoutId: layout.id}))}
+                   className={`px-4 py-3 rounded-xl text-sm font-medium transition-all border-2 flex items-center justify-center truncate ${
+                     config.customLayoutId === layout.id
+                       ? 'border-booth-dark bg-booth-dark text-white' 
+                       : 'border-gray-100 bg-gray-50 text-gray-600 hover:border-gray-200'
+                   }`}
+                   title={layout.name}
+                 >
+                   {layout.name}
+                 </button>
+               ))}
+               <button
+                 onClick={() => openLayoutEditor()}
+                 className="px-4 py-3 rounded-xl text-sm font-medium transition-all border-2 border-dashed border-gray-200 text-gray-500 hover:border-gray-300 flex items-center justify-center"
+               >
+                 <Icons.Layers className="w-4 h-4 mr-2" /> New Layout
+               </button>
              </div>
+             {selectedCustomLayout && (
+               <div className="flex gap-4">
+                 <button
+                   onClick={() => openLayoutEditor(selectedCustomLayout)}
+                   className="flex items-center text-xs text-gray-400 hover:text-gray-600"
+                 >
+                   <Icons.Settings className="w-3.5 h-3.5 mr-1" /> Edit this layout
+                 </button>
+                 <button
+                   onClick={() => removeCustomLayout(selectedCustomLayout.id)}
+                   className="flex items-center text-xs text-gray-400 hover:text-gray-600"
+                 >
+                   <Icons.Trash className="w-3.5 h-3.5 mr-1" /> Remove
+                 </button>
+               </div>
+             )}
+          </div>
+
+          <div className="space-y-3">
+            <label className="flex items-center text-xs font-semibold uppercase tracking-[0.2em] text-gray-400/80 mb-2">
+              <Icons.Crop className="w-4 h-4 mr-2"/> Aspect Ratio
+            </label>
+            <div className="flex bg-gray-100 p-1 rounded-xl">
+              {ASPECT_RATIOS.map((a) => (
+                <button
+                  key={a.value}
+                  onClick={() => setConfig(c => ({...c, aspectRatio: a.value}))}
+                  className={`flex-1 py-2 rounded-lg text-sm font-medium transition-all ${
+                    config.aspectRatio === a.value
+                      ? 'bg-white shadow-sm text-booth-dark'
+                      : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  {a.label}
+                </button>
+              ))}
+            </div>
           </div>
 
           <div className="space-y-3">
@@ -806,6 +1334,68 @@ const App: React.FC = () => {
                 </button>
               ))}
             </div>
+
+            {config.maskType === MaskType.CUSTOM && (
+              <div className="space-y-3 pt-1">
+                <div className="flex items-center gap-2">
+                  <label className="flex items-center px-3 py-1.5 rounded-full text-sm border bg-white text-gray-600 border-gray-200 hover:border-gray-300 cursor-pointer transition-all">
+                    <Icons.Upload className="w-4 h-4 mr-2" />
+                    {config.customMask ? 'Replace Sticker' : 'Upload Sticker'}
+                    <input type="file" accept="image/png,image/svg+xml" className="hidden" onChange={handleCustomMaskUpload} />
+                  </label>
+                  {config.customMask && (
+                    <>
+                      <img src={config.customMask.image} alt="Sticker" className="w-9 h-9 object-contain rounded-lg border border-gray-200 bg-gray-50" />
+                      <button
+                        onClick={() => setConfig(c => ({ ...c, customMask: null }))}
+                        className="p-2 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-100 transition-all"
+                        title="Remove sticker"
+                      >
+                        <Icons.Trash className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
+
+                {config.customMask && (
+                  <>
+                    <div className="flex flex-wrap gap-2">
+                      {CUSTOM_MASK_ANCHORS.map((a) => (
+                        <button
+                          key={a.value}
+                          onClick={() => updateCustomMask({ anchor: a.value })}
+                          className={`px-3 py-1 rounded-full text-xs transition-all border ${
+                            config.customMask?.anchor === a.value
+                              ? 'bg-booth-dark text-white border-booth-dark'
+                              : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+                          }`}
+                        >
+                          {a.label}
+                        </button>
+                      ))}
+                    </div>
+                    <label className="flex items-center gap-3 text-xs text-gray-500">
+                      <span className="w-12">Size</span>
+                      <input
+                        type="range" min={0.3} max={2.5} step={0.05}
+                        value={config.customMask.scale}
+                        onChange={(e) => updateCustomMask({ scale: Number(e.target.value) })}
+                        className="flex-1 accent-booth-dark"
+                      />
+                    </label>
+                    <label className="flex items-center gap-3 text-xs text-gray-500">
+                      <span className="w-12">Offset</span>
+                      <input
+                        type="range" min={-1} max={1} step={0.05}
+                        value={config.customMask.offsetY}
+                        onChange={(e) => updateCustomMask({ offsetY: Number(e.target.value) })}
+                        className="flex-1 accent-booth-dark"
+                      />
+                    </label>
+                  </>
+                )}
+              </div>
+            )}
           </div>
 
           <div className="space-y-3">
@@ -829,6 +1419,194 @@ const App: React.FC = () => {
                   {f.label}
                 </button>
               ))}
+              {LUT_PRESETS.map((p) => (
+                <button
+                  key={p.value}
+                  onClick={() => {
+                    setConfig(c => ({...c, filterType: FilterType.LUT, lutId: p.value}));
+                    playClick();
+                  }}
+                  className={`px-3 py-1.5 rounded-full text-sm transition-all border ${
+                    config.filterType === FilterType.LUT && config.lutId === p.value
+                      ? 'bg-booth-dark text-white border-booth-dark'
+                      : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+                  }`}
+                >
+                  {p.label}
+                </button>
+              ))}
+              {config.customLut && (
+                <button
+                  onClick={() => {
+                    setConfig(c => ({...c, filterType: FilterType.LUT, lutId: CUSTOM_LUT_ID}));
+                    playClick();
+                  }}
+                  className={`px-3 py-1.5 rounded-full text-sm transition-all border max-w-[10rem] truncate ${
+                    config.filterType === FilterType.LUT && config.lutId === CUSTOM_LUT_ID
+                      ? 'bg-booth-dark text-white border-booth-dark'
+                      : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+                  }`}
+                  title={config.customLut.name}
+                >
+                  {config.customLut.name}
+                </button>
+              )}
+              <label className="flex items-center px-3 py-1.5 rounded-full text-sm border bg-white text-gray-600 border-dashed border-gray-300 hover:border-gray-400 cursor-pointer transition-all">
+                <Icons.Upload className="w-4 h-4 mr-2" />
+                .cube
+                <input type="file" accept=".cube" className="hidden" onChange={handleLutUpload} />
+              </label>
+            </div>
+
+            {config.filterType !== FilterType.NORMAL && (
+              <div className="space-y-2 pt-1">
+                <label className="flex items-center gap-3 text-xs text-gray-500">
+                  <span className="w-20">Intensity</span>
+                  <input
+                    type="range" min={0} max={100} step={1}
+                    value={Math.round(config.filterIntensity * 100)}
+                    onChange={(e) => setConfig(c => ({...c, filterIntensity: Number(e.target.value) / 100}))}
+                    className="flex-1 accent-booth-dark"
+                  />
+                  <span className="w-10 text-right tabular-nums">{Math.round(config.filterIntensity * 100)}%</span>
+                </label>
+
+                {config.filterType === FilterType.CUSTOM && (
+                  <>
+                    {CUSTOM_FILTER_CONTROLS.map((control) => (
+                      <label key={control.key} className="flex items-center gap-3 text-xs text-gray-500">
+                        <span className="w-20">{control.label}</span>
+                        <input
+                          type="range" min={control.min} max={control.max} step={1}
+                          value={config.customFilter[control.key]}
+                          onChange={(e) => setConfig(c => ({...c, customFilter: {...c.customFilter, [control.key]: Number(e.target.value)}}))}
+                          className="flex-1 accent-booth-dark"
+                        />
+                        <span className="w-10 text-right tabular-nums">{config.customFilter[control.key]}{control.unit}</span>
+                      </label>
+                    ))}
+                    <button
+                      onClick={() => setConfig(c => ({...c, customFilter: DEFAULT_CUSTOM_FILTER}))}
+                      className="text-xs text-gray-400 hover:text-gray-600 underline underline-offset-2"
+                    >
+                      Reset
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <label className="flex items-center text-xs font-semibold uppercase tracking-[0.2em] text-gray-400/80 mb-2">
+              <Icons.Layers className="w-4 h-4 mr-2"/> Background
+            </label>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => {
+                  updateChromaKey({ enabled: false });
+                  playClick();
+                }}
+                className={`px-3 py-1.5 rounded-full text-sm transition-all border ${
+                  !config.chromaKey.enabled
+                    ? 'bg-booth-dark text-white border-booth-dark'
+                    : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+                }`}
+              >
+                Off
+              </button>
+              {[
+                ...BACKGROUNDS.map(b => ({ id: b.value, label: b.label })),
+                ...config.customBackgrounds.map(b => ({ id: b.id, label: b.name })),
+              ].map((b) => (
+                <button
+                  key={b.id}
+                  onClick={() => {
+                    updateChromaKey({ enabled: true, backgroundId: b.id });
+                    playClick();
+                  }}
+                  className={`px-3 py-1.5 rounded-full text-sm transition-all border max-w-[10rem] truncate ${
+                    config.chromaKey.enabled && config.chromaKey.backgroundId === b.id
+                      ? 'bg-booth-dark text-white border-booth-dark'
+                      : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+                  }`}
+                  title={b.label}
+                >
+                  {b.label}
+                </button>
+              ))}
+              <label className="flex items-center px-3 py-1.5 rounded-full text-sm border bg-white text-gray-600 border-dashed border-gray-300 hover:border-gray-400 cursor-pointer transition-all">
+                <Icons.Upload className="w-4 h-4 mr-2" />
+                Upload
+                <input type="file" accept="image/*" className="hidden" onChange={handleBackgroundUpload} />
+              </label>
+            </div>
+
+            {config.chromaKey.enabled && (
+              <div className="space-y-2 pt-1">
+                <label className="flex items-center gap-3 text-xs text-gray-500">
+                  <span className="w-20">Key Color</span>
+                  <input
+                    type="color"
+                    value={config.chromaKey.keyColor}
+                    onChange={(e) => updateChromaKey({ keyColor: e.target.value })}
+                    className="w-8 h-8 rounded-lg border border-gray-200 bg-white cursor-pointer"
+                  />
+                  <span className="uppercase tabular-nums">{config.chromaKey.keyColor}</span>
+                </label>
+                <label className="flex items-center gap-3 text-xs text-gray-500">
+                  <span className="w-20">Tolerance</span>
+                  <input
+                    type="range" min={0} max={100} step={1}
+                    value={config.chromaKey.tolerance}
+                    onChange={(e) => updateChromaKey({ tolerance: Number(e.target.value) })}
+                    className="flex-1 accent-booth-dark"
+                  />
+                  <span className="w-10 text-right tabular-nums">{config.chromaKey.tolerance}</span>
+                </label>
+                <label className="flex items-center gap-3 text-xs text-gray-500">
+                  <span className="w-20">Spill</span>
+                  <input
+                    type="range" min={0} max={100} step={1}
+                    value={config.chromaKey.spill}
+                    onChange={(e) => updateChromaKey({ spill: Number(e.target.value) })}
+                    className="flex-1 accent-booth-dark"
+                  />
+                  <span className="w-10 text-right tabular-nums">{config.chromaKey.spill}</span>
+                </label>
+                {config.customBackgrounds.some(b => b.id === config.chromaKey.backgroundId) && (
+                  <button
+                    onClick={() => removeCustomBackground(config.chromaKey.backgroundId)}
+                    className="flex items-center text-xs text-gray-400 hover:text-gray-600"
+                  >
+                    <Icons.Trash className="w-3.5 h-3.5 mr-1" /> Remove this background
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <label className="flex items-center text-xs font-semibold uppercase tracking-[0.2em] text-gray-400/80 mb-2">
+              <Icons.Film className="w-4 h-4 mr-2"/> Film
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {FILM_EFFECTS.map((effect) => (
+                <button
+                  key={effect.value}
+                  onClick={() => {
+                    setConfig(c => ({...c, filmEffects: {...c.filmEffects, [effect.value]: !c.filmEffects[effect.value]}}));
+                    playClick();
+                  }}
+                  className={`px-3 py-1.5 rounded-full text-sm transition-all border ${
+                    config.filmEffects[effect.value]
+                      ? 'bg-booth-dark text-white border-booth-dark'
+                      : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+                  }`}
+                >
+                  {effect.label}
+                </button>
+              ))}
             </div>
           </div>
 
@@ -857,18 +1635,189 @@ const App: React.FC = () => {
             <label className="flex items-center text-xs font-semibold uppercase tracking-[0.2em] text-gray-400/80 mb-2">
               <Icons.Palette className="w-4 h-4 mr-2"/> Frame
             </label>
-            <div className="flex gap-4">
+            <div className="flex flex-wrap gap-2">
+              {FRAME_STYLES.map((style) => (
+                <button
+                  key={style.value}
+                  onClick={() => updateFrame({ style: style.value })}
+                  className={`px-3 py-1.5 rounded-full text-sm transition-all border ${
+                    config.frame.style === style.value
+                      ? 'bg-booth-dark text-white border-booth-dark'
+                      : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+                  }`}
+                >
+                  {style.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-4">
               {FRAMES.map((frame) => (
                 <button
                   key={frame.value}
-                  onClick={() => setConfig(c => ({...c, frameColor: frame.value}))}
+                  onClick={() => updateFrame({ color: frame.value })}
                   className={`w-10 h-10 rounded-full border-2 transition-transform hover:scale-110 ${
-                    config.frameColor === frame.value ? 'ring-2 ring-offset-2 ring-gray-400 border-gray-400' : 'border-gray-200'
+                    config.frame.color.toUpperCase() === frame.value ? 'ring-2 ring-offset-2 ring-gray-400 border-gray-400' : 'border-gray-200'
                   }`}
                   style={{ backgroundColor: frame.value }}
                   title={frame.label}
                 />
               ))}
+              <label
+                className={`relative w-10 h-10 rounded-full border-2 flex items-center justify-center cursor-pointer transition-transform hover:scale-110 ${
+                  isPresetFrameColor ? 'border-dashed border-gray-300 text-gray-400' : 'ring-2 ring-offset-2 ring-gray-400 border-gray-400'
+                }`}
+                style={isPresetFrameColor ? undefined : { backgroundColor: config.frame.color, color: getContrastTextColor({ ...config.frame, style: FrameStyle.SOLID }) }}
+                title="Custom color"
+              >
+                <Icons.Palette className="w-4 h-4" />
+                <input
+                  type="color"
+                  value={config.frame.color}
+                  onChange={(e) => updateFrame({ color: e.target.value })}
+                  className="absolute inset-0 opacity-0 cursor-pointer"
+                />
+              </label>
+            </div>
+            {config.frame.style !== FrameStyle.SOLID && config.frame.style !== FrameStyle.IMAGE && (
+              <div className="space-y-2 pt-1">
+                <label className="flex items-center gap-3 text-xs text-gray-500">
+                  <span className="w-20">{config.frame.style === FrameStyle.LINEAR || config.frame.style === FrameStyle.RADIAL ? 'Blend To' : 'Pattern'}</span>
+                  <input
+                    type="color"
+                    value={config.frame.color2}
+                    onChange={(e) => updateFrame({ color2: e.target.value })}
+                    className="w-8 h-8 rounded-lg border border-gray-200 bg-white cursor-pointer"
+                  />
+                </label>
+                {(config.frame.style === FrameStyle.LINEAR || config.frame.style === FrameStyle.STRIPES) && (
+                  <label className="flex items-center gap-3 text-xs text-gray-500">
+                    <span className="w-20">Angle</span>
+                    <input
+                      type="range"
+                      min={0}
+                      max={345}
+                      step={15}
+                      value={config.frame.angle}
+                      onChange={(e) => updateFrame({ angle: Number(e.target.value) })}
+                      className="flex-1 accent-booth-dark"
+                    />
+                    <span className="w-10 text-right">{config.frame.angle}°</span>
+                  </label>
+                )}
+              </div>
+            )}
+            {config.frame.style === FrameStyle.IMAGE && (
+              <div className="flex flex-wrap items-center gap-2">
+                <label className="flex items-center px-3 py-1.5 rounded-full text-sm border bg-white text-gray-600 border-dashed border-gray-300 hover:border-gray-400 cursor-pointer transition-all">
+                  <Icons.Upload className="w-4 h-4 mr-2" />
+                  {config.frame.image ? 'Replace Image' : 'Upload Image'}
+                  <input type="file" accept="image/*" className="hidden" onChange={handleFrameImageUpload} />
+                </label>
+                {config.frame.image && (
+                  <button
+                    onClick={() => updateFrame({ style: FrameStyle.SOLID, image: null, imageTone: null })}
+                    className="flex items-center text-xs text-gray-400 hover:text-gray-600"
+                  >
+                    <Icons.Trash className="w-3.5 h-3.5 mr-1" /> Remove image
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <label className="flex items-center text-xs font-semibold uppercase tracking-[0.2em] text-gray-400/80 mb-2">
+              <Icons.Text className="w-4 h-4 mr-2"/> Footer
+            </label>
+            <input
+              type="text"
+              value={config.footer.title}
+              onChange={(e) => updateFooter({ title: e.target.value })}
+              placeholder="Title"
+              className="w-full px-4 py-3 rounded-xl text-sm font-medium border-2 border-gray-100 bg-gray-50 text-gray-600 hover:border-gray-200 focus:outline-none focus:border-booth-dark"
+            />
+            <input
+              type="text"
+              value={config.footer.subtitle}
+              onChange={(e) => updateFooter({ subtitle: e.target.value })}
+              placeholder="Subtitle (optional)"
+              className="w-full px-4 py-3 rounded-xl text-sm font-medium border-2 border-gray-100 bg-gray-50 text-gray-600 hover:border-gray-200 focus:outline-none focus:border-booth-dark"
+            />
+            <div className="flex flex-wrap gap-2">
+              {FOOTER_FONTS.map((font) => (
+                <button
+                  key={font.value}
+                  onClick={() => updateFooter({ font: font.value })}
+                  className={`px-3 py-1.5 rounded-full text-sm transition-all border ${
+                    config.footer.font === font.value
+                      ? 'bg-booth-dark text-white border-booth-dark'
+                      : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+                  }`}
+                  style={{ fontFamily: font.family, fontStyle: font.style }}
+                >
+                  {font.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {DATE_FORMATS.map((format) => (
+                <button
+                  key={format.value}
+                  onClick={() => updateFooter({ dateFormat: format.value })}
+                  className={`px-3 py-1.5 rounded-full text-sm transition-all border ${
+                    config.footer.dateFormat === format.value
+                      ? 'bg-booth-dark text-white border-booth-dark'
+                      : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+                  }`}
+                >
+                  {format.label}
+                </button>
+              ))}
+            </div>
+            <div className="space-y-2 pt-1">
+              {config.footer.dateFormat !== DateFormat.NONE && config.footer.dateFormat !== DateFormat.ISO && (
+                <label className="flex items-center gap-3 text-xs text-gray-500">
+                  <span className="w-20">Locale</span>
+                  <input
+                    type="text"
+                    value={config.footer.locale}
+                    onChange={(e) => updateFooter({ locale: e.target.value.trim() })}
+                    placeholder="Browser default, e.g. en-GB"
+                    className="flex-1 px-3 py-1.5 rounded-lg border border-gray-200 bg-white text-gray-600 focus:outline-none focus:border-booth-dark"
+                  />
+                </label>
+              )}
+              <label className="flex items-center gap-3 text-xs text-gray-500">
+                <span className="w-20">Text Color</span>
+                <input
+                  type="color"
+                  value={getFooterTextColor(config.footer, config.frame)}
+                  onChange={(e) => updateFooter({ textColor: e.target.value })}
+                  className="w-8 h-8 rounded-lg border border-gray-200 bg-white cursor-pointer"
+                />
+                {config.footer.textColor ? (
+                  <button onClick={() => updateFooter({ textColor: null })} className="text-gray-400 hover:text-gray-600">
+                    Use automatic
+                  </button>
+                ) : (
+                  <span>Automatic</span>
+                )}
+              </label>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <label className="flex items-center px-3 py-1.5 rounded-full text-sm border bg-white text-gray-600 border-dashed border-gray-300 hover:border-gray-400 cursor-pointer transition-all">
+                <Icons.Upload className="w-4 h-4 mr-2" />
+                {config.footer.logo ? 'Replace Logo' : 'Upload Logo'}
+                <input type="file" accept="image/*" className="hidden" onChange={handleFooterLogoUpload} />
+              </label>
+              {config.footer.logo && (
+                <button
+                  onClick={() => updateFooter({ logo: null })}
+                  className="flex items-center text-xs text-gray-400 hover:text-gray-600"
+                >
+                  <Icons.Trash className="w-3.5 h-3.5 mr-1" /> Remove logo
+                </button>
+              )}
             </div>
           </div>
 
@@ -907,9 +1856,27 @@ const App: React.FC = () => {
     );
   }
 
+  // Layout Editor, opened from the Setup screen
+  if (appState === AppState.LAYOUT_EDITOR && editingLayout) {
+    return (
+      <>
+        {feedbackToast}
+        <LayoutEditor
+          initialLayout={editingLayout}
+          frame={config.frame}
+          footer={config.footer}
+          onSave={saveCustomLayout}
+          onCancel={closeLayoutEditor}
+          onError={showFeedback}
+        />
+      </>
+    );
+  }
+
   // 3. Capture Mode
   if (appState === AppState.COUNTDOWN || appState === AppState.CAPTURE) {
-    const totalPhotos = GRID_CONFIGS[config.gridType].count;
+    const photoRatio = getAspectRatioValue(config.aspectRatio);
+    const totalPhotos = getConfigLayout(config, photoRatio).photos.length;
     const animClass = config.animationType !== AnimationType.NONE ? `anim-${config.animationType}` : '';
 
     return (
@@ -920,17 +1887,31 @@ const App: React.FC = () => {
             <div 
               className={`relative w-full max-w-4xl max-h-[80vh] shadow-2xl rounded-lg overflow-hidden border border-gray-200 bg-gray-100 transition-all duration-300 ${animClass}`}
               style={{ 
-                 aspectRatio: 4/3, // Force 4:3 for capture frame
+                 aspectRatio: photoRatio, // Match the capture crop
               }}
             >
               <VideoFeed 
                   stream={stream}
                   filter={config.filterType}
+                  filterIntensity={config.filterIntensity}
+                  customFilter={config.customFilter}
+                  preview={processedPreview}
+                  filmEffects={config.filmEffects}
                   mask={config.maskType}
-                  faceData={faceData}
+                  customMask={config.customMask}
+                  faces={faces}
                   videoRef={videoRef}
+                  aspectRatio={photoRatio}
                   className="w-full h-full"
               />
+
+                {isReconnecting && (
+                  <div className="absolute inset-0 z-[60] flex flex-col items-center justify-center gap-4 bg-black/60 backdrop-blur-sm text-white">
+                    <Icons.Refresh className="w-10 h-10 animate-spin" />
+                    <p className="font-serif italic text-2xl">Reconnecting camera...</p>
+                    <p className="text-sm text-white/70">Your {photos.length} {photos.length === 1 ? 'photo is' : 'photos are'} safe. We'll pick up where we left off.</p>
+                  </div>
+                )}
                 
                 <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-50">
                   <div className="text-[10rem] md:text-[14rem] font-bold text-white drop-shadow-2xl animate-pulse font-sans leading-none select-none">
@@ -952,7 +1933,8 @@ const App: React.FC = () => {
                  return (
                    <div 
                      key={i} 
-                     className={`w-full aspect-[4/3] rounded-md border overflow-hidden transition-all duration-300 relative ${
+                     style={{ aspectRatio: photoRatio }}
+                     className={`w-full rounded-md border overflow-hidden transition-all duration-300 relative ${
                        hasPhoto 
                          ? 'border-transparent bg-gray-100' 
                          : isActive 
@@ -989,32 +1971,21 @@ const App: React.FC = () => {
   // 4. Processing / Result
   if (appState === AppState.PROCESSING || appState === AppState.RESULT) {
     const animClass = config.animationType !== AnimationType.NONE ? `anim-${config.animationType}` : '';
+    const layout = getConfigLayout(config, getAspectRatioValue(config.aspectRatio));
 
     return (
       <div className="min-h-screen bg-gradient-to-br from-rose-50 via-white to-blue-50 flex flex-col items-center justify-center p-6 relative">
          <div className="absolute top-0 left-0 w-full h-full bg-[url('https://www.transparenttextures.com/patterns/cubes.png')] opacity-5 pointer-events-none"></div>
 
-         {showDownloadFeedback && (
-            <div className="fixed top-8 left-0 right-0 flex justify-center z-50 pointer-events-none">
-              <div className="bg-white text-booth-dark px-6 py-4 rounded-full shadow-2xl flex items-center gap-3 border border-gray-200 animate-bounce pointer-events-auto">
-                <div className="bg-green-500 rounded-full p-1">
-                  <Icons.Check className="w-4 h-4 text-white" />
-                </div>
-                <span className="font-sans font-medium">{feedbackMessage}</span>
-              </div>
-            </div>
-         )}
+         {feedbackToast}
 
          <div className="z-10 w-full max-w-6xl flex flex-col md:flex-row gap-16 items-center justify-center">
             
             <div className="relative group shadow-2xl">
                {compositeUrl ? (
                  <div 
-                   className={`rounded-sm border-[16px] overflow-hidden ${animClass}`}
-                   style={{ 
-                     borderColor: config.frameColor, 
-                     backgroundColor: config.frameColor 
-                   }}
+                   className={`rounded-sm border-[16px] border-transparent overflow-hidden ${animClass}`}
+                   style={getFrameBackgroundStyle(config.frame, layout.width / layout.height)}
                  >
                    <img 
                      src={compositeUrl} 
@@ -1044,13 +2015,192 @@ const App: React.FC = () => {
                    <Icons.Download className="mr-3 w-6 h-6" /> Download Photo
                  </button>
 
+                 <div className="rounded-2xl border-2 border-gray-100 bg-white/70 p-4 space-y-3">
+                   <div className="flex flex-wrap gap-2">
+                     {PAPER_SIZES.map((paper) => (
+                       <button
+                         key={paper.value}
+                         onClick={() => updatePrint({ paperSize: paper.value })}
+                         className={`px-3 py-1.5 rounded-full text-sm transition-all border ${
+                           config.print.paperSize === paper.value
+                             ? 'bg-booth-dark text-white border-booth-dark'
+                             : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+                         }`}
+                       >
+                         {paper.label}
+                       </button>
+                     ))}
+                     {PRINT_DPIS.map((dpi) => (
+                       <button
+                         key={dpi}
+                         onClick={() => updatePrint({ dpi })}
+                         className={`px-3 py-1.5 rounded-full text-sm transition-all border ${
+                           config.print.dpi === dpi
+                             ? 'bg-booth-dark text-white border-booth-dark'
+                             : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+                         }`}
+                       >
+                         {dpi} DPI
+                       </button>
+                     ))}
+                   </div>
+                   <div className="flex flex-wrap gap-2">
+                     <button
+                       onClick={() => updatePrint({ twoUp: !config.print.twoUp })}
+                       className={`px-3 py-1.5 rounded-full text-sm transition-all border ${
+                         config.print.twoUp
+                           ? 'bg-booth-dark text-white border-booth-dark'
+                           : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+                       }`}
+                     >
+                       2-up
+                     </button>
+                     {PRINT_BLEEDS.map((bleed) => (
+                       <button
+                         key={bleed.value}
+                         onClick={() => updatePrint({ bleed: bleed.value })}
+                         className={`px-3 py-1.5 rounded-full text-sm transition-all border ${
+                           config.print.bleed === bleed.value
+                             ? 'bg-booth-dark text-white border-booth-dark'
+                             : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+                         }`}
+                       >
+                         {bleed.label}
+                       </button>
+                     ))}
+                   </div>
+                   <div className="flex items-center gap-3 text-xs text-gray-500">
+                     <span className="w-20">Copies</span>
+                     <button
+                       onClick={() => updatePrint({ copies: Math.max(1, config.print.copies - 1) })}
+                       disabled={config.print.copies <= 1}
+                       className="p-1.5 rounded-full border border-gray-200 bg-white text-gray-600 hover:border-gray-300 disabled:opacity-50"
+                       title="Fewer copies"
+                     >
+                       <Icons.Minus className="w-3.5 h-3.5" />
+                     </button>
+                     <span className="w-6 text-center text-sm font-medium text-booth-dark">{config.print.copies}</span>
+                     <button
+                       onClick={() => updatePrint({ copies: Math.min(PRINT_MAX_COPIES, config.print.copies + 1) })}
+                       disabled={config.print.copies >= PRINT_MAX_COPIES}
+                       className="p-1.5 rounded-full border border-gray-200 bg-white text-gray-600 hover:border-gray-300 disabled:opacity-50"
+                       title="More copies"
+                     >
+                       <Icons.Plus className="w-3.5 h-3.5" />
+                     </button>
+                   </div>
+                   <div className="flex gap-2">
+                     <button
+                       onClick={printComposite}
+                       disabled={!compositeUrl || printQueue.isPrinting}
+                       className="flex-1 py-3 bg-booth-dark text-white rounded-xl font-bold flex items-center justify-center hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+                     >
+                       <Icons.Printer className="mr-2 w-5 h-5" /> {printQueue.isPrinting ? 'Printing...' : 'Print'}
+                     </button>
+                     <button
+                       onClick={queueComposite}
+                       disabled={!compositeUrl}
+                       className="flex-1 py-3 bg-white text-booth-dark border-2 border-booth-dark rounded-xl font-bold flex items-center justify-center hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                     >
+                       <Icons.Plus className="mr-2 w-5 h-5" /> Add to Queue
+                     </button>
+                   </div>
+                   <div className="flex gap-2">
+                     <button
+                       onClick={downloadPrintFile}
+                       disabled={!compositeUrl || isExportingPrint}
+                       className="flex-1 py-3 bg-white text-booth-dark border-2 border-booth-dark rounded-xl font-bold flex items-center justify-center hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                     >
+                       <Icons.Download className="mr-2 w-5 h-5" /> {isExportingPrint ? 'Preparing...' : 'Print File'}
+                     </button>
+                     <button
+                       onClick={downloadPdf}
+                       disabled={!compositeUrl || photos.length === 0 || isExportingPdf}
+                       className="flex-1 py-3 bg-white text-booth-dark border-2 border-booth-dark rounded-xl font-bold flex items-center justify-center hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                     >
+                       <Icons.Download className="mr-2 w-5 h-5" /> {isExportingPdf ? 'Preparing...' : 'PDF'}
+                     </button>
+                   </div>
+                 </div>
+
+                 {printQueue.jobs.length > 0 && (
+                   <div className="rounded-2xl border-2 border-gray-100 bg-white/70 p-4 space-y-3">
+                     <div className="flex items-center justify-between">
+                       <span className="flex items-center text-xs font-semibold uppercase tracking-[0.2em] text-gray-400/80">
+                         <Icons.Printer className="w-4 h-4 mr-2" /> Print Queue
+                       </span>
+                       <button
+                         onClick={() => handlePrint(printQueue.jobs.filter(job => job.status === PrintJobStatus.QUEUED))}
+                         disabled={printQueue.isPrinting || !printQueue.jobs.some(job => job.status === PrintJobStatus.QUEUED)}
+                         className="text-xs font-medium text-booth-dark hover:underline disabled:opacity-50 disabled:no-underline"
+                       >
+                         Print All Queued
+                       </button>
+                     </div>
+                     <div className="space-y-2 max-h-60 overflow-y-auto">
+                       {printQueue.jobs.map((job) => (
+                         <div key={job.id} className="flex items-center gap-3">
+                           <img src={job.image} alt="" className="h-12 w-12 object-contain rounded bg-gray-100" />
+                           <div className="flex-1 min-w-0 text-xs text-gray-500">
+                             <div className="text-sm font-medium text-booth-dark">
+                               {new Date(job.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                             </div>
+                             {PAPER_SIZES.find(p => p.value === job.settings.paperSize)?.label} · {job.settings.copies} {job.settings.copies === 1 ? 'copy' : 'copies'}
+                           </div>
+                           <span className={`px-2 py-0.5 rounded-full text-xs ${
+                             job.status === PrintJobStatus.SENT ? 'bg-green-100 text-green-700'
+                               : job.status === PrintJobStatus.FAILED ? 'bg-red-100 text-red-700'
+                               : job.status === PrintJobStatus.PRINTING ? 'bg-blue-100 text-blue-700'
+                               : 'bg-gray-100 text-gray-600'
+                           }`}>
+                             {PRINT_JOB_STATUS_LABELS[job.status]}
+                           </span>
+                           <button
+                             onClick={() => handlePrint([job])}
+                             disabled={printQueue.isPrinting}
+                             className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+                             title={job.status === PrintJobStatus.QUEUED ? 'Print' : 'Print again'}
+                           >
+                             <Icons.Printer className="w-4 h-4" />
+                           </button>
+                           <button
+                             onClick={() => printQueue.removeJob(job.id)}
+                             disabled={job.status === PrintJobStatus.PRINTING}
+                             className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+                             title="Remove"
+                           >
+                             <Icons.Trash className="w-4 h-4" />
+                           </button>
+                         </div>
+                       ))}
+                     </div>
+                   </div>
+                 )}
+
                  <button 
                    onClick={downloadVideo}
                    disabled={!videoUrl}
                    className="w-full py-5 bg-black text-white rounded-2xl font-bold text-xl flex items-center justify-center hover:scale-105 transition-transform shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
                  >
-                   <Icons.Image className="mr-3 w-6 h-6" /> Download Video
+                   <Icons.Image className="mr-3 w-6 h-6" /> {videoProgress !== null ? `Encoding Video ${Math.round(videoProgress * 100)}%` : 'Download Video'}
                  </button>
+
+                 <div className="flex gap-2">
+                   <button
+                     onClick={() => downloadAnimatedImage('gif')}
+                     disabled={stripFrames.length === 0 || gifProgress !== null}
+                     className="flex-1 py-3 bg-white text-booth-dark border-2 border-booth-dark rounded-xl font-bold flex items-center justify-center hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                   >
+                     <Icons.Download className="mr-2 w-5 h-5" /> {gifProgress !== null ? `Preparing ${Math.round(gifProgress * 100)}%` : 'GIF'}
+                   </button>
+                   <button
+                     onClick={() => downloadAnimatedImage('apng')}
+                     disabled={stripFrames.length === 0 || apngProgress !== null}
+                     className="flex-1 py-3 bg-white text-booth-dark border-2 border-booth-dark rounded-xl font-bold flex items-center justify-center hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                   >
+                     <Icons.Download className="mr-2 w-5 h-5" /> {apngProgress !== null ? `Preparing ${Math.round(apngProgress * 100)}%` : 'APNG'}
+                   </button>
+                 </div>
                  
                  <button 
                    onClick={handleRetake}
@@ -1,5 +1,5 @@
 import React from "react";
-import { Camera, Settings, Download, RotateCcw, X, Clock, Grid, Palette, Image as ImageIcon, Check, Sparkles, ArrowLeft } from "lucide-react";
+import { Camera, Settings, Download, RotateCcw, X, Clock, Grid, Palette, Image as ImageIcon, Check, Sparkles, ArrowLeft, Crop, Upload, Trash2, Film, Layers, Type, Printer, Plus, Minus } from "lucide-react";
 
 export const Icons = {
   Camera,
@@ -13,5 +13,14 @@ export const Icons = {
   Image: ImageIcon,
   Check,
   Sparkles,
-  ArrowLeft
+  ArrowLeft,
+  Crop,
+  Upload,
+  Trash: Trash2,
+  Film,
+  Layers,
+  Text: Type,
+  Printer,
+  Plus,
+  Minus
 };
\ No newline at end of file
@@ -0,0 +1,533 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CustomLayout, FooterConfig, FrameBackground, LayoutDecoration, LayoutRect, LayoutTemplate, LayoutTextSlot, PrintSize } from '../types';
+import { LOGO_MAX_SIZE, PRINT_SIZES } from '../constants';
+import { fitTemplate, getFooterTextColor, getPrintSizeUnits, parseLayoutJson, serializeLayout } from '../utils/layouts';
+import { loadImageFile } from '../utils/imageProcessing';
+import { downloadBlob } from '../utils/download';
+import { LayoutPreview, getLayoutBoxStyle } from './LayoutPreview';
+import { Icons } from './Icon';
+
+// Editor for custom layouts: photo slots, text blocks, logos and boxes are dragged and resized
+// on a canvas the size of the print. Positions snap to SNAP print units.
+const SNAP = 5;
+const MIN_SIZE = 30;
+const NUDGE = 10;
+
+type ElementKind = 'photos' | 'texts' | 'decorations' | 'footer';
+
+interface Selection {
+  kind: ElementKind;
+  index: number; // Unused for the footer
+}
+
+interface DragState {
+  selection: Selection;
+  mode: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  rect: LayoutRect;
+  unitsPerPixel: number;
+}
+
+// Any property of a photo slot, text block or decoration
+type ElementChanges = Partial<LayoutTextSlot & LayoutDecoration>;
+
+const snap = (value: number) => Math.round(value / SNAP) * SNAP;
+
+const getElement = (template: LayoutTemplate, selection: Selection): LayoutRect | undefined =>
+  selection.kind === 'footer' ? template.footer : template[selection.kind][selection.index];
+
+const updateElement = (template: LayoutTemplate, selection: Selection, changes: ElementChanges): LayoutTemplate => {
+  if (selection.kind === 'footer') {
+    return template.footer ? { ...template, footer: { ...template.footer, ...changes } } : template;
+  }
+  const list = template[selection.kind] as LayoutRect[];
+  return { ...template, [selection.kind]: list.map((item, i) => (i === selection.index ? { ...item, ...changes } : item)) };
+};
+
+const removeElement = (template: LayoutTemplate, selection: Selection): LayoutTemplate => {
+  if (selection.kind === 'footer') return { ...template, footer: undefined };
+  const list = template[selection.kind] as LayoutRect[];
+  return { ...template, [selection.kind]: list.filter((_, i) => i !== selection.index) };
+};
+
+const chipClass = (selected: boolean) => `px-3 py-1.5 rounded-full text-sm transition-all border ${
+  selected
+    ? 'bg-booth-dark text-white border-booth-dark'
+    : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+}`;
+
+const sectionLabelClass = "flex items-center text-xs font-semibold uppercase tracking-[0.2em] text-gray-400/80 mb-2";
+
+export const LayoutEditor: React.FC<{
+  initialLayout: CustomLayout,
+  frame: FrameBackground,
+  footer: FooterConfig,
+  onSave: (layout: CustomLayout) => void,
+  onCancel: () => void,
+  onError: (message: string) => void,
+}> = ({ initialLayout, frame, footer, onSave, onCancel, onError }) => {
+  const [layout, setLayout] = useState<CustomLayout>(initialLayout);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const { template } = layout;
+  const selected = selection ? getElement(template, selection) : undefined;
+
+  const setTemplate = (update: (t: LayoutTemplate) => LayoutTemplate) => {
+    setLayout(l => ({ ...l, template: update(l.template) }));
+  };
+
+  const changeSelected = (changes: ElementChanges) => {
+    if (selection) setTemplate(t => updateElement(t, selection, changes));
+  };
+
+  const deleteSelected = () => {
+    if (!selection) return;
+    setTemplate(t => removeElement(t, selection));
+    setSelection(null);
+  };
+
+  // Keep elements on the canvas
+  const clampRect = (rect: LayoutRect): LayoutRect => {
+    const width = Math.min(template.width, Math.max(MIN_SIZE, rect.width));
+    const height = Math.min(template.height, Math.max(MIN_SIZE, rect.height));
+    return {
+      ...rect,
+      width,
+      height,
+      x: Math.min(template.width - width, Math.max(0, rect.x)),
+      y: Math.min(template.height - height, Math.max(0, rect.y)),
+    };
+  };
+
+  // Delete removes the selection, arrow keys nudge it (further with Shift)
+  useEffect(() => {
+    if (!selection) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        deleteSelected();
+        return;
+      }
+      const step = e.shiftKey ? NUDGE * 5 : NUDGE;
+      const moves: Record<string, [number, number]> = {
+        ArrowLeft: [-step, 0],
+        ArrowRight: [step, 0],
+        ArrowUp: [0, -step],
+        ArrowDown: [0, step],
+      };
+      const move = moves[e.key];
+      const rect = getElement(template, selection);
+      if (!move || !rect) return;
+      e.preventDefault();
+      const { x, y } = clampRect({ ...rect, x: rect.x + move[0], y: rect.y + move[1] });
+      changeSelected({ x, y });
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // --- Dragging ---
+
+  const startDrag = (e: React.PointerEvent, target: Selection, mode: DragState['mode']) => {
+    const rect = getElement(template, target);
+    const canvas = canvasRef.current;
+    if (!rect || !canvas) return;
+    e.stopPropagation();
+    e.preventDefault();
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    setSelection(target);
+    dragRef.current = {
+      selection: target,
+      mode,
+      startX: e.clientX,
+      startY: e.clientY,
+      rect,
+      unitsPerPixel: template.width / canvas.getBoundingClientRect().width,
+    };
+  };
+
+  const onDragMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = (e.clientX - drag.startX) * drag.unitsPerPixel;
+    const dy = (e.clientY - drag.startY) * drag.unitsPerPixel;
+    const { rect } = drag;
+
+    const next = drag.mode === 'move'
+      ? clampRect({ ...rect, x: snap(rect.x + dx), y: snap(rect.y + dy) })
+      : clampRect({ ...rect, width: snap(rect.width + dx), height: snap(rect.height + dy) });
+    setTemplate(t => updateElement(t, drag.selection, { x: next.x, y: next.y, width: next.width, height: next.height }));
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  // --- Adding elements ---
+
+  const addPhoto = () => {
+    const width = snap(template.width * 0.4);
+    const height = snap(width * 0.75);
+    setTemplate(t => ({ ...t, photos: [...t.photos, { x: snap((t.width - width) / 2), y: snap((t.height - height) / 2), width, height }] }));
+    setSelection({ kind: 'photos', index: template.photos.length });
+  };
+
+  const addText = () => {
+    const size = snap(Math.min(template.width, template.height) * 0.08);
+    const width = snap(template.width * 0.6);
+    const text: LayoutTextSlot = {
+      x: snap((template.width - width) / 2),
+      y: snap(template.height * 0.1),
+      width,
+      height: snap(size * 1.5),
+      text: '{title}',
+      font: 'serif',
+      size,
+      align: 'center',
+    };
+    setTemplate(t => ({ ...t, texts: [...t.texts, text] }));
+    setSelection({ kind: 'texts', index: template.texts.length });
+  };
+
+  const addBox = () => {
+    const size = snap(Math.min(template.width, template.height) * 0.3);
+    setTemplate(t => ({
+      ...t,
+      decorations: [...t.decorations, { x: snap((t.width - size) / 2), y: snap((t.height - size) / 2), width: size, height: size, fill: '#F9D5DC' }],
+    }));
+    setSelection({ kind: 'decorations', index: template.decorations.length });
+  };
+
+  const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { dataUrl, width: imageWidth, height: imageHeight } = await loadImageFile(file, LOGO_MAX_SIZE);
+      const width = snap(template.width * 0.3);
+      const height = Math.max(MIN_SIZE, snap(width * (imageHeight / imageWidth)));
+      setTemplate(t => ({
+        ...t,
+        decorations: [...t.decorations, { x: snap((t.width - width) / 2), y: snap((t.height - height) / 2), width, height, image: dataUrl, above: true }],
+      }));
+      setSelection({ kind: 'decorations', index: template.decorations.length });
+    } catch (err) {
+      console.warn("Failed to load logo", err);
+      onError("That image could not be loaded. Try a PNG or SVG file.");
+    }
+  };
+
+  const toggleFooter = () => {
+    if (template.footer) {
+      setTemplate(t => ({ ...t, footer: undefined }));
+      if (selection?.kind === 'footer') setSelection(null);
+      return;
+    }
+    const margin = snap(template.width * 0.05);
+    const height = snap(Math.min(template.width, template.height) * 0.15);
+    setTemplate(t => ({ ...t, footer: { x: margin, y: t.height - height - margin, width: t.width - margin * 2, height } }));
+    setSelection({ kind: 'footer', index: 0 });
+  };
+
+  // Photos are filled in capture order, so their order in the list matters
+  const movePhoto = (offset: number) => {
+    if (selection?.kind !== 'photos') return;
+    const target = selection.index + offset;
+    if (target < 0 || target >= template.photos.length) return;
+    setTemplate(t => {
+      const photos = [...t.photos];
+      [photos[selection.index], photos[target]] = [photos[target], photos[selection.index]];
+      return { ...t, photos };
+    });
+    setSelection({ kind: 'photos', index: target });
+  };
+
+  const changePrintSize = (printSize: PrintSize) => {
+    const { width, height } = getPrintSizeUnits(printSize);
+    setLayout(l => ({ ...l, printSize, template: fitTemplate(l.template, width, height) }));
+  };
+
+  // --- Files ---
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseLayoutJson(await file.text());
+      // The imported design replaces this one, saving keeps the layout being edited
+      setLayout(l => ({ ...imported, id: l.id }));
+      setSelection(null);
+    } catch (err) {
+      console.warn("Failed to import layout", err);
+      onError(`That layout could not be imported: ${err instanceof Error ? err.message : 'invalid file'}.`);
+    }
+  };
+
+  const handleExport = () => {
+    const slug = layout.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'layout';
+    downloadBlob(new Blob([serializeLayout(layout)], { type: 'application/json' }), `${slug}.layout.json`);
+  };
+
+  const handleSave = () => {
+    if (template.photos.length === 0) {
+      onError("Add at least one photo slot before saving.");
+      return;
+    }
+    onSave({ ...layout, name: layout.name.trim() || "My layout" });
+  };
+
+  // --- Rendering ---
+
+  const renderHandle = (target: Selection, rect: LayoutRect, label: string) => {
+    const isSelected = selection?.kind === target.kind && selection.index === target.index;
+    return (
+      <div
+        key={`${target.kind}-${target.index}`}
+        className={`cursor-move touch-none ${isSelected ? 'ring-2 ring-blue-500 z-10' : 'hover:ring-1 hover:ring-blue-300'}`}
+        style={getLayoutBoxStyle(rect, template)}
+        onPointerDown={(e) => startDrag(e, target, 'move')}
+        onPointerMove={onDragMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+        title={label}
+      >
+        {isSelected && (
+          <div
+            className="absolute -right-1.5 -bottom-1.5 w-3 h-3 bg-white border-2 border-blue-500 rounded-sm cursor-nwse-resize"
+            onPointerDown={(e) => startDrag(e, target, 'resize')}
+          />
+        )}
+      </div>
+    );
+  };
+
+  const selectedText = selection?.kind === 'texts' ? template.texts[selection.index] : undefined;
+  const selectedDecoration = selection?.kind === 'decorations' ? template.decorations[selection.index] : undefined;
+  const selectionLabel = !selection ? '' :
+    selection.kind === 'photos' ? `Photo ${selection.index + 1}` :
+    selection.kind === 'texts' ? 'Text' :
+    selection.kind === 'footer' ? 'Footer' :
+    selectedDecoration?.image ? 'Logo' : 'Box';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-rose-50 via-white to-blue-50 flex flex-col md:flex-row">
+      {/* Left: Canvas */}
+      <div className="flex-1 relative flex items-center justify-center p-8 md:p-12 min-h-[500px]" onPointerDown={() => setSelection(null)}>
+        <div
+          ref={canvasRef}
+          className="relative shadow-2xl select-none"
+          style={{ width: `min(100%, calc((100vh - 6rem) * ${template.width / template.height}))` }}
+        >
+          <LayoutPreview
+            template={template}
+            frame={frame}
+            footer={footer}
+            renderPhoto={(_, i) => (
+              <div className="w-full h-full flex items-center justify-center font-serif italic text-gray-400" style={{ fontSize: '6cqw' }}>
+                {i + 1}
+              </div>
+            )}
+          />
+          <div className="absolute inset-0">
+            {template.footer && renderHandle({ kind: 'footer', index: 0 }, template.footer, 'Footer')}
+            {template.decorations.map((d, i) => renderHandle({ kind: 'decorations', index: i }, d, d.image ? 'Logo' : 'Box'))}
+            {template.photos.map((p, i) => renderHandle({ kind: 'photos', index: i }, p, `Photo ${i + 1}`))}
+            {template.texts.map((t, i) => renderHandle({ kind: 'texts', index: i }, t, 'Text'))}
+          </div>
+        </div>
+      </div>
+
+      {/* Right: Controls */}
+      <div className="w-full md:w-96 bg-white border-l border-gray-100 p-8 flex flex-col gap-8 overflow-y-auto z-10 shadow-lg">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onCancel}
+            className="p-2 -ml-2 hover:bg-gray-100 rounded-full transition-colors group"
+            aria-label="Back"
+          >
+            <Icons.ArrowLeft className="w-6 h-6 text-gray-400 group-hover:text-booth-dark" />
+          </button>
+          <h2 className="font-serif text-3xl italic">Layout Editor</h2>
+        </div>
+
+        <div className="space-y-3">
+          <label className={sectionLabelClass}>Name</label>
+          <input
+            type="text"
+            value={layout.name}
+            onChange={(e) => setLayout(l => ({ ...l, name: e.target.value }))}
+            className="w-full px-4 py-3 rounded-xl text-sm font-medium border-2 border-gray-100 bg-gray-50 text-gray-600 hover:border-gray-200 focus:outline-none focus:border-booth-dark"
+          />
+        </div>
+
+        <div className="space-y-3">
+          <label className={sectionLabelClass}>
+            <Icons.Crop className="w-4 h-4 mr-2"/> Print Size
+          </label>
+          <div className="flex flex-wrap gap-2">
+            {PRINT_SIZES.map((size) => (
+              <button key={size.value} onClick={() => changePrintSize(size.value)} className={chipClass(layout.printSize === size.value)}>
+                {size.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <label className={sectionLabelClass}>
+            <Icons.Layers className="w-4 h-4 mr-2"/> Add
+          </label>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={addPhoto} className={chipClass(false)}>Photo</button>
+            <button onClick={addText} className={chipClass(false)}>Text</button>
+            <button onClick={addBox} className={chipClass(false)}>Box</button>
+            <label className="flex items-center px-3 py-1.5 rounded-full text-sm border bg-white text-gray-600 border-dashed border-gray-300 hover:border-gray-400 cursor-pointer transition-all">
+              <Icons.Upload className="w-4 h-4 mr-2" />
+              Logo
+              <input type="file" accept="image/*" className="hidden" onChange={handleLogoUpload} />
+            </label>
+            <button onClick={toggleFooter} className={chipClass(!!template.footer)}>Footer</button>
+          </div>
+          <p className="text-xs text-gray-400">
+            Drag to move, use the corner handle to resize. Photos fill their slots in capture order.
+          </p>
+        </div>
+
+        {selection && selected && (
+          <div className="space-y-3">
+            <label className={sectionLabelClass}>{selectionLabel}</label>
+
+            {selectedText && (
+              <div className="space-y-2">
+                <input
+                  type="text"
+                  value={selectedText.text}
+                  onChange={(e) => changeSelected({ text: e.target.value })}
+                  className="w-full px-4 py-2 rounded-xl text-sm border-2 border-gray-100 bg-gray-50 text-gray-600 focus:outline-none focus:border-booth-dark"
+                />
+                <p className="text-xs text-gray-400">{'{title}'}, {'{subtitle}'} and {'{date}'} come from the footer settings.</p>
+                <div className="flex flex-wrap gap-2">
+                  {(['serif', 'sans'] as const).map(font => (
+                    <button key={font} onClick={() => changeSelected({ font })} className={chipClass(selectedText.font === font)}>
+                      {font === 'serif' ? 'Serif' : 'Sans'}
+                    </button>
+                  ))}
+                  {(['left', 'center', 'right'] as const).map(align => (
+                    <button key={align} onClick={() => changeSelected({ align })} className={chipClass((selectedText.align ?? 'center') === align)}>
+                      {align[0].toUpperCase() + align.slice(1)}
+                    </button>
+                  ))}
+                </div>
+                <label className="flex items-center gap-3 text-xs text-gray-500">
+                  <span className="w-20">Size</span>
+                  <input
+                    type="range" min={20} max={400} step={SNAP}
+                    value={selectedText.size}
+                    onChange={(e) => changeSelected({ size: Number(e.target.value) })}
+                    className="flex-1 accent-booth-dark"
+                  />
+                </label>
+                <label className="flex items-center gap-3 text-xs text-gray-500">
+                  <span className="w-20">Color</span>
+                  <input
+                    type="color"
+                    value={selectedText.color ?? getFooterTextColor(footer, frame)}
+                    onChange={(e) => changeSelected({ color: e.target.value })}
+                    className="w-8 h-8 rounded-lg border border-gray-200 bg-white cursor-pointer"
+                  />
+                  {selectedText.color && (
+                    <button onClick={() => changeSelected({ color: undefined })} className="text-gray-400 hover:text-gray-600">
+                      Match footer
+                    </button>
+                  )}
+                </label>
+              </div>
+            )}
+
+            {selectedDecoration && !selectedDecoration.image && (
+              <label className="flex items-center gap-3 text-xs text-gray-500">
+                <span className="w-20">Fill</span>
+                <input
+                  type="color"
+                  value={selectedDecoration.fill ?? '#FFFFFF'}
+                  onChange={(e) => changeSelected({ fill: e.target.value })}
+                  className="w-8 h-8 rounded-lg border border-gray-200 bg-white cursor-pointer"
+                />
+              </label>
+            )}
+
+            {selectedDecoration && (
+              <label className="flex items-center gap-3 text-xs text-gray-500">
+                <input
+                  type="checkbox"
+                  checked={!!selectedDecoration.above}
+                  onChange={(e) => changeSelected({ above: e.target.checked || undefined })}
+                  className="accent-booth-dark"
+                />
+                Draw over the photos
+              </label>
+            )}
+
+            {selection.kind === 'photos' && (
+              <div className="flex gap-2">
+                <button onClick={() => movePhoto(-1)} disabled={selection.index === 0} className={`${chipClass(false)} disabled:opacity-40`}>
+                  Earlier
+                </button>
+                <button onClick={() => movePhoto(1)} disabled={selection.index === template.photos.length - 1} className={`${chipClass(false)} disabled:opacity-40`}>
+                  Later
+                </button>
+              </div>
+            )}
+
+            {selection.kind !== 'footer' && (
+              <label className="flex items-center gap-3 text-xs text-gray-500">
+                <span className="w-20">Rotation</span>
+                <input
+                  type="range" min={-45} max={45} step={1}
+                  value={selected.rotation ?? 0}
+                  onChange={(e) => changeSelected({ rotation: Number(e.target.value) || undefined })}
+                  className="flex-1 accent-booth-dark"
+                />
+                <span className="w-10 text-right tabular-nums">{selected.rotation ?? 0}°</span>
+              </label>
+            )}
+
+            <button onClick={deleteSelected} className="flex items-center text-xs text-gray-400 hover:text-gray-600">
+              <Icons.Trash className="w-3.5 h-3.5 mr-1" /> Remove
+            </button>
+          </div>
+        )}
+
+        <div className="mt-auto space-y-3">
+          <div className="flex gap-2">
+            <label className="flex-1 flex items-center justify-center px-3 py-2 rounded-xl text-sm border bg-white text-gray-600 border-gray-200 hover:border-gray-300 cursor-pointer transition-all">
+              <Icons.Upload className="w-4 h-4 mr-2" /> Import JSON
+              <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            </label>
+            <button
+              onClick={handleExport}
+              className="flex-1 flex items-center justify-center px-3 py-2 rounded-xl text-sm border bg-white text-gray-600 border-gray-200 hover:border-gray-300 transition-all"
+            >
+              <Icons.Download className="w-4 h-4 mr-2" /> Export JSON
+            </button>
+          </div>
+          <button
+            onClick={handleSave}
+            className="w-full py-4 bg-booth-dark text-white rounded-2xl font-bold text-lg flex items-center justify-center hover:scale-[1.02] transition-transform shadow-lg"
+          >
+            <Icons.Check className="mr-2 w-5 h-5" /> Save Layout
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React from 'react';
+import { FontSpec, FooterConfig, FrameBackground, LayoutPhotoSlot, LayoutRect, LayoutTemplate } from '../types';
+import { LAYOUT_FONTS, fillLayoutText, getFooterLayout, getFooterTextColor } from '../utils/layouts';
+import { getFrameBackgroundStyle } from '../utils/frames';
+
+// Renders a layout template with positioned elements, the same geometry generateComposite draws.
+// Sizes are percentages of the template and text uses container units, so it scales with the frame.
+// Used by the SETUP preview and the layout editor.
+
+export const getLayoutBoxStyle = (rect: LayoutRect, template: LayoutTemplate): React.CSSProperties => ({
+  position: 'absolute',
+  left: `${(rect.x / template.width) * 100}%`,
+  top: `${(rect.y / template.height) * 100}%`,
+  width: `${(rect.width / template.width) * 100}%`,
+  height: `${(rect.height / template.height) * 100}%`,
+  transform: rect.rotation ? `rotate(${rect.rotation}deg)` : undefined,
+});
+
+export const getLayoutFontStyle = (font: FontSpec, size: number, template: LayoutTemplate): React.CSSProperties => ({
+  fontFamily: font.family,
+  fontStyle: font.style,
+  fontWeight: font.weight,
+  fontSize: `${(size / template.width) * 100}cqw`,
+  lineHeight: 1,
+});
+
+export const LayoutPreview: React.FC<{
+  template: LayoutTemplate,
+  frame: FrameBackground,
+  footer: FooterConfig,
+  renderPhoto: (slot: LayoutPhotoSlot, index: number) => React.ReactNode,
+  paintFrame?: boolean, // false when a surrounding element already paints the frame
+}> = ({ template, frame, footer, renderPhoto, paintFrame = true }) => {
+  const textColor = getFooterTextColor(footer, frame);
+  const footerLayout = template.footer ? getFooterLayout(template.footer, footer) : null;
+
+  const renderDecorations = (above: boolean) => template.decorations.map((decoration, i) => !!decoration.above === above && (
+    <div
+      key={`decoration-${i}`}
+      className="pointer-events-none overflow-hidden"
+      style={{
+        ...getLayoutBoxStyle(decoration, template),
+        backgroundColor: decoration.fill,
+        borderRadius: decoration.radius ? `${(decoration.radius / template.width) * 100}cqw` : undefined,
+        zIndex: above ? 30 : undefined,
+      }}
+    >
+      {decoration.image && <img src={decoration.image} alt="" className="w-full h-full" />}
+    </div>
+  ));
+
+  return (
+    <div
+      className="relative w-full"
+      style={{
+        ...(paintFrame ? getFrameBackgroundStyle(frame, template.width / template.height) : {}),
+        aspectRatio: template.width / template.height,
+        containerType: 'inline-size',
+      }}
+    >
+      {renderDecorations(false)}
+      {template.photos.map((slot, i) => (
+        <div key={`photo-${i}`} className="overflow-hidden bg-black/10 shadow-sm" style={getLayoutBoxStyle(slot, template)}>
+          {renderPhoto(slot, i)}
+        </div>
+      ))}
+      {renderDecorations(true)}
+
+      {template.texts.map((slot, i) => (
+        <div
+          key={`text-${i}`}
+          className="flex items-center whitespace-nowrap overflow-hidden pointer-events-none"
+          style={{
+            ...getLayoutBoxStyle(slot, template),
+            ...getLayoutFontStyle(LAYOUT_FONTS[slot.font], slot.size, template),
+            color: slot.color ?? textColor,
+            justifyContent: slot.align === 'left' ? 'flex-start' : slot.align === 'right' ? 'flex-end' : 'center',
+          }}
+        >
+          {fillLayoutText(slot.text, footer)}
+        </div>
+      ))}
+
+      {template.footer && footerLayout && (
+        <>
+          {footerLayout.lines.map((line, i) => (
+            <div
+              key={`footer-${i}`}
+              className="flex items-center justify-center whitespace-nowrap overflow-hidden pointer-events-none"
+              style={{
+                ...getLayoutBoxStyle({
+                  x: footerLayout.centerX - footerLayout.textWidth / 2,
+                  y: line.y - line.size / 2,
+                  width: footerLayout.textWidth,
+                  height: line.size,
+                }, template),
+                ...getLayoutFontStyle(line.font, line.size, template),
+                color: textColor,
+                opacity: line.opacity,
+              }}
+            >
+              {line.text}
+            </div>
+          ))}
+          {footerLayout.logo && footer.logo && (
+            <img
+              src={footer.logo.image}
+              alt=""
+              className="pointer-events-none"
+              style={getLayoutBoxStyle(footerLayout.logo, template)}
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,21 +1,206 @@
-import { AnimationType, FilterType, FrameColor, GridType, MaskType } from "./types";
+import { AnimationDefinition, AnimationType, AspectRatio, CustomFilterSettings, DateFormat, FilmEffects, FilterType, FooterFont, FrameColor, FrameStyle, GridType, LayoutPhotoSlot, LayoutTemplate, MaskAnchor, MaskDefinition, MaskType, PaperSize, PhotoConfig, PrintJobStatus, PrintSize } from "./types";
+import { FaceSmoothingOptions } from "./utils/faceTracking";
 
-export const DEFAULT_CONFIG = {
+export const DEFAULT_CUSTOM_FILTER: CustomFilterSettings = {
+  brightness: 100,
+  contrast: 100,
+  saturation: 100,
+  hue: 0,
+  warmth: 0,
+  sepia: 0,
+  grayscale: 0,
+};
+
+export const DEFAULT_CONFIG: PhotoConfig = {
   timerDuration: 5,
   gridType: GridType.GRID_2X2, // Default to Grid 2x2
+  customLayoutId: null,
+  customLayouts: [],
+  aspectRatio: AspectRatio.LANDSCAPE,
   filterType: FilterType.NORMAL,
-  frameColor: FrameColor.WHITE,
+  filterIntensity: 1,
+  customFilter: DEFAULT_CUSTOM_FILTER,
+  lutId: null,
+  customLut: null,
+  filmEffects: { grain: false, vignette: false, lightLeak: false, dust: false, dateStamp: false },
+  chromaKey: { enabled: false, keyColor: '#00B140', tolerance: 40, spill: 50, backgroundId: 'beach' },
+  customBackgrounds: [],
+  frame: {
+    style: FrameStyle.SOLID,
+    color: FrameColor.WHITE,
+    color2: FrameColor.PINK,
+    angle: 135,
+    image: null,
+    imageTone: null,
+  },
+  footer: {
+    title: "let's take a pic",
+    subtitle: '',
+    dateFormat: DateFormat.SHORT,
+    locale: '',
+    font: FooterFont.PLAYFAIR,
+    textColor: null,
+    logo: null,
+  },
+  print: { paperSize: PaperSize.PHOTO_4X6, dpi: 300, twoUp: false, bleed: 0, copies: 1 },
   animationType: AnimationType.NONE,
   maskType: MaskType.NONE,
+  customMask: null,
+};
+
+// Layout templates are in units where a full-size photo is 1000 wide, so the spacing
+// matches the original pixel values at that size. Photo heights follow the capture ratio.
+const LAYOUT_CELL = 1000;
+const LAYOUT_PADDING = 70;
+const LAYOUT_GAP = 70;
+const LAYOUT_FOOTER = 160;
+
+const buildGridLayout = (cols: number, rows: number) => (photoRatio: number): LayoutTemplate => {
+  const cellHeight = LAYOUT_CELL / photoRatio;
+  const width = LAYOUT_PADDING * 2 + cols * LAYOUT_CELL + (cols - 1) * LAYOUT_GAP;
+  const footerTop = LAYOUT_PADDING * 2 + rows * cellHeight + (rows - 1) * LAYOUT_GAP;
+
+  const photos: LayoutPhotoSlot[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      photos.push({
+        x: LAYOUT_PADDING + col * (LAYOUT_CELL + LAYOUT_GAP),
+        y: LAYOUT_PADDING + row * (cellHeight + LAYOUT_GAP),
+        width: LAYOUT_CELL,
+        height: cellHeight,
+      });
+    }
+  }
+
+  return {
+    width,
+    height: footerTop + LAYOUT_FOOTER,
+    photos,
+    texts: [],
+    decorations: [],
+    footer: { x: LAYOUT_PADDING, y: footerTop, width: width - LAYOUT_PADDING * 2, height: LAYOUT_FOOTER },
+  };
 };
 
-export const GRID_CONFIGS: Record<GridType, { count: number; label: string; aspectRatio: number }> = {
-  [GridType.SINGLE]: { count: 1, label: "Single", aspectRatio: 4/3 }, 
-  [GridType.STRIP_3]: { count: 3, label: "Strip (3)", aspectRatio: 4/10 }, // Tall vertical
-  [GridType.STRIP_4]: { count: 4, label: "Strip (4)", aspectRatio: 4/13.5 }, // Taller vertical for 1x4
-  [GridType.GRID_2X2]: { count: 4, label: "Grid 2x2", aspectRatio: 4/3 }, 
+// One photo with thin sides and a deep caption area, taped at the top
+const buildPolaroidLayout = (photoRatio: number): LayoutTemplate => {
+  const margin = 60;
+  const footerHeight = 240;
+  const photoHeight = LAYOUT_CELL / photoRatio;
+  const width = LAYOUT_CELL + margin * 2;
+
+  return {
+    width,
+    height: margin + photoHeight + footerHeight,
+    photos: [{ x: margin, y: margin, width: LAYOUT_CELL, height: photoHeight }],
+    texts: [],
+    decorations: [
+      { x: width / 2 - 130, y: 10, width: 260, height: 80, rotation: -4, fill: 'rgba(231, 220, 190, 0.75)', above: true },
+    ],
+    footer: { x: margin, y: margin + photoHeight, width: LAYOUT_CELL, height: footerHeight },
+  };
 };
 
+// A large first photo over a row of three thumbnails
+const buildHeroLayout = (photoRatio: number): LayoutTemplate => {
+  const heroWidth = LAYOUT_CELL * 2;
+  const heroHeight = heroWidth / photoRatio;
+  const thumbWidth = (heroWidth - LAYOUT_GAP * 2) / 3;
+  const thumbHeight = thumbWidth / photoRatio;
+  const thumbTop = LAYOUT_PADDING + heroHeight + LAYOUT_GAP;
+  const footerTop = thumbTop + thumbHeight + LAYOUT_PADDING;
+  const width = heroWidth + LAYOUT_PADDING * 2;
+
+  return {
+    width,
+    height: footerTop + LAYOUT_FOOTER,
+    photos: [
+      { x: LAYOUT_PADDING, y: LAYOUT_PADDING, width: heroWidth, height: heroHeight },
+      ...[0, 1, 2].map(i => ({ x: LAYOUT_PADDING + i * (thumbWidth + LAYOUT_GAP), y: thumbTop, width: thumbWidth, height: thumbHeight })),
+    ],
+    texts: [],
+    decorations: [],
+    footer: { x: LAYOUT_PADDING, y: footerTop, width: heroWidth, height: LAYOUT_FOOTER },
+  };
+};
+
+export const GRID_CONFIGS: Record<GridType, { label: string; build: (photoRatio: number) => LayoutTemplate }> = {
+  [GridType.SINGLE]: { label: "Single", build: buildGridLayout(1, 1) },
+  [GridType.STRIP_3]: { label: "Strip (3)", build: buildGridLayout(1, 3) },
+  [GridType.STRIP_4]: { label: "Strip (4)", build: buildGridLayout(1, 4) },
+  [GridType.GRID_2X2]: { label: "Grid 2x2", build: buildGridLayout(2, 2) },
+  [GridType.GRID_2X3]: { label: "Grid 2x3", build: buildGridLayout(2, 3) },
+  [GridType.GRID_3X2]: { label: "Grid 3x2", build: buildGridLayout(3, 2) },
+  [GridType.POLAROID]: { label: "Polaroid", build: buildPolaroidLayout },
+  [GridType.HERO]: { label: "Hero + 3", build: buildHeroLayout },
+};
+
+// The template for a layout filled with photos of the given ratio (width / height)
+export const getLayoutTemplate = (gridType: GridType, photoRatio: number): LayoutTemplate =>
+  GRID_CONFIGS[gridType].build(photoRatio);
+
+// Custom layouts are designed at print resolution: one template unit is 1/300 inch
+export const LAYOUT_UNITS_PER_INCH = 300;
+
+export const PRINT_SIZES = [
+  { label: '2x6 Strip', value: PrintSize.STRIP_2X6, width: 2, height: 6 }, // inches
+  { label: '4x6', value: PrintSize.PORTRAIT_4X6, width: 4, height: 6 },
+  { label: '6x4', value: PrintSize.LANDSCAPE_6X4, width: 6, height: 4 },
+  { label: '5x7', value: PrintSize.PORTRAIT_5X7, width: 5, height: 7 },
+];
+
+// Paper for print files, in inches (portrait; sheets turn to suit the picture)
+export const PAPER_SIZES = [
+  { label: '4x6', value: PaperSize.PHOTO_4X6, width: 4, height: 6 },
+  { label: '5x7', value: PaperSize.PHOTO_5X7, width: 5, height: 7 },
+  { label: 'A6', value: PaperSize.A6, width: 105 / 25.4, height: 148 / 25.4 },
+];
+
+export const PRINT_DPIS = [300, 600];
+
+export const PRINT_BLEEDS = [
+  { label: 'No Bleed', value: 0 },
+  { label: '1/16"', value: 1 / 16 },
+  { label: '1/8"', value: 1 / 8 },
+];
+
+export const PRINT_MAX_COPIES = 10;
+
+export const PRINT_JOB_STATUS_LABELS: Record<PrintJobStatus, string> = {
+  [PrintJobStatus.QUEUED]: 'Queued',
+  [PrintJobStatus.PRINTING]: 'Printing',
+  [PrintJobStatus.SENT]: 'Sent',
+  [PrintJobStatus.FAILED]: 'Failed',
+};
+
+// Logos (footer and custom layouts) are downscaled to this size (longest side)
+export const LOGO_MAX_SIZE = 800;
+
+export const FOOTER_FONTS = [
+  { label: 'Playfair', value: FooterFont.PLAYFAIR, family: '"Playfair Display", serif', style: 'italic', weight: 700 },
+  { label: 'Outfit', value: FooterFont.OUTFIT, family: '"Outfit", sans-serif', style: 'normal', weight: 500 },
+  { label: 'Script', value: FooterFont.SCRIPT, family: '"Dancing Script", cursive', style: 'normal', weight: 600 },
+  { label: 'Bebas', value: FooterFont.BEBAS, family: '"Bebas Neue", sans-serif', style: 'normal', weight: 400 },
+];
+
+export const DATE_FORMATS = [
+  { label: 'None', value: DateFormat.NONE },
+  { label: 'Short', value: DateFormat.SHORT },
+  { label: 'Medium', value: DateFormat.MEDIUM },
+  { label: 'Long', value: DateFormat.LONG },
+  { label: 'ISO', value: DateFormat.ISO },
+];
+
+export const ASPECT_RATIOS = [
+  { label: '4:3', value: AspectRatio.LANDSCAPE, ratio: 4/3 },
+  { label: '1:1', value: AspectRatio.SQUARE, ratio: 1 },
+  { label: '3:4', value: AspectRatio.PORTRAIT, ratio: 3/4 },
+  { label: '16:9', value: AspectRatio.WIDE, ratio: 16/9 },
+];
+
+export const getAspectRatioValue = (aspectRatio: AspectRatio): number =>
+  ASPECT_RATIOS.find(a => a.value === aspectRatio)?.ratio ?? 4/3;
+
 export const FILTERS = [
   { label: 'Normal', value: FilterType.NORMAL },
   { label: 'B&W', value: FilterType.GRAYSCALE },
@@ -25,8 +210,48 @@ export const FILTERS = [
   { label: 'Retro', value: FilterType.RETRO },
   { label: 'Cyberpunk', value: FilterType.CYBERPUNK },
   { label: 'Dreamy', value: FilterType.DREAMY },
+  { label: 'Custom', value: FilterType.CUSTOM },
 ];
 
+// Bundled .cube grades, served from public/luts
+export const LUT_PRESETS = [
+  { label: 'Teal & Orange', value: 'teal-orange', url: '/luts/teal-orange.cube' },
+  { label: 'Warm Film', value: 'warm-film', url: '/luts/warm-film.cube' },
+  { label: 'Cool Fade', value: 'cool-fade', url: '/luts/cool-fade.cube' },
+];
+
+// lutId of the user's uploaded .cube file
+export const CUSTOM_LUT_ID = 'custom';
+
+export const CUSTOM_FILTER_CONTROLS: { label: string; key: keyof CustomFilterSettings; min: number; max: number; unit: string }[] = [
+  { label: 'Brightness', key: 'brightness', min: 50, max: 150, unit: '%' },
+  { label: 'Contrast', key: 'contrast', min: 50, max: 150, unit: '%' },
+  { label: 'Saturation', key: 'saturation', min: 0, max: 200, unit: '%' },
+  { label: 'Hue', key: 'hue', min: -180, max: 180, unit: '°' },
+  { label: 'Warmth', key: 'warmth', min: -100, max: 100, unit: '' },
+  { label: 'Sepia', key: 'sepia', min: 0, max: 100, unit: '%' },
+  { label: 'Grayscale', key: 'grayscale', min: 0, max: 100, unit: '%' },
+];
+
+export const FILM_EFFECTS: { label: string; value: keyof FilmEffects }[] = [
+  { label: 'Grain', value: 'grain' },
+  { label: 'Vignette', value: 'vignette' },
+  { label: 'Light Leak', value: 'lightLeak' },
+  { label: 'Dust', value: 'dust' },
+  { label: 'Date Stamp', value: 'dateStamp' },
+];
+
+// Bundled chroma key scenes, served from public/backgrounds
+export const BACKGROUNDS = [
+  { label: 'Beach', value: 'beach', url: '/backgrounds/beach.svg' },
+  { label: 'Party', value: 'party', url: '/backgrounds/party.svg' },
+  { label: 'Space', value: 'space', url: '/backgrounds/space.svg' },
+  { label: 'Studio', value: 'studio', url: '/backgrounds/studio.svg' },
+];
+
+// Uploaded backgrounds are downscaled to this size (longest side)
+export const CUSTOM_BACKGROUND_MAX_SIZE = 1920;
+
 export const ANIMATIONS = [
   { label: 'None', value: AnimationType.NONE },
   { label: 'Breathe', value: AnimationType.BREATHE },
@@ -37,21 +262,209 @@ export const ANIMATIONS = [
   { label: 'Pulse', value: AnimationType.PULSE },
 ];
 
+// GIF/APNG exports of the moving strip: long side in pixels, and the redraw rate of animated strips
+export const ANIMATED_IMAGE_MAX_SIZE = 600;
+export const ANIMATED_IMAGE_FPS = 15;
+
+// Canvas versions of the anim-* keyframes in index.html, baked into the exported video.
+// Keep the two in sync.
+const EASE_IN_OUT: [number, number, number, number] = [0.42, 0, 0.58, 1];
+
+export const ANIMATION_DEFINITIONS: Partial<Record<AnimationType, AnimationDefinition>> = {
+  [AnimationType.BREATHE]: {
+    duration: 4,
+    easing: { bezier: EASE_IN_OUT },
+    keyframes: [
+      { offset: 0 },
+      { offset: 0.5, brightness: 1.1, saturate: 1.1, scale: 1.02 },
+      { offset: 1 },
+    ],
+  },
+  [AnimationType.RAINBOW]: {
+    duration: 5,
+    easing: 'linear',
+    keyframes: [
+      { offset: 0, hueRotate: 0 },
+      { offset: 1, hueRotate: 360 },
+    ],
+  },
+  [AnimationType.FLICKER]: {
+    duration: 2,
+    easing: { steps: 10 },
+    keyframes: [
+      { offset: 0 },
+      { offset: 0.05, opacity: 0.8 },
+      { offset: 0.1 },
+      { offset: 0.15 },
+      { offset: 0.2, opacity: 0.9 },
+      { offset: 0.25 },
+      { offset: 1 },
+    ],
+  },
+  [AnimationType.WOBBLE]: {
+    duration: 2,
+    easing: { bezier: EASE_IN_OUT },
+    keyframes: [
+      { offset: 0, rotate: -3 },
+      { offset: 0.5, rotate: 3 },
+      { offset: 1, rotate: -3 },
+    ],
+  },
+  [AnimationType.GLOW]: {
+    duration: 3,
+    easing: { bezier: EASE_IN_OUT },
+    keyframes: [
+      { offset: 0 },
+      { offset: 0.5, brightness: 1.3, blur: 2 },
+      { offset: 1 },
+    ],
+  },
+  [AnimationType.PULSE]: {
+    duration: 0.8,
+    easing: { bezier: [0.4, 0, 0.6, 1] },
+    keyframes: [
+      { offset: 0 },
+      { offset: 0.5, scale: 1.05 },
+      { offset: 1 },
+    ],
+  },
+};
+
 export const MASKS = [
   { label: 'None', value: MaskType.NONE },
   { label: 'Hearts', value: MaskType.HEARTS },
   { label: 'Stars', value: MaskType.STARS },
+  { label: 'Sunglasses', value: MaskType.SUNGLASSES },
+  { label: 'Cat Ears', value: MaskType.CAT_EARS },
+  { label: 'Mustache', value: MaskType.MUSTACHE },
+  { label: 'Custom', value: MaskType.CUSTOM },
 ];
 
+export const CUSTOM_MASK_ANCHORS = [
+  { label: 'Above Head', value: MaskAnchor.CROWN },
+  { label: 'Head Top', value: MaskAnchor.HEAD_TOP },
+  { label: 'Eyes', value: MaskAnchor.EYES },
+  { label: 'Mouth', value: MaskAnchor.UPPER_LIP },
+];
+
+// Uploaded stickers are downscaled to this size (px, longest side) to fit in localStorage
+export const CUSTOM_MASK_MAX_SIZE = 512;
+
+const HEART_PATH = "M12 21.35l-1.45-1.32C5.4 15.36 2 12.28 2 8.5 2 5.42 4.42 3 7.5 3c1.74 0 3.41.81 4.5 2.09C13.09 3.81 14.76 3 16.5 3 19.58 3 22 5.42 22 8.5c0 3.78-3.4 6.86-8.55 11.54L12 21.35z";
+const STAR_PATH = "M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01L12 2z";
+
+// Sizes and offsets are in face widths, so masks scale with the person
+export const MASK_DEFINITIONS: Partial<Record<MaskType, MaskDefinition>> = {
+  [MaskType.HEARTS]: {
+    anchor: MaskAnchor.CROWN,
+    followRoll: false,
+    showWithoutFace: true,
+    graphic: { viewBox: { width: 24, height: 24 }, paths: [{ d: HEART_PATH }] },
+    glow: { color: 'rgba(255, 105, 180, 0.5)', blur: 0.045 },
+    animation: { kind: 'float', period: 2, amplitude: 0.05 },
+    items: [
+      { x: -0.37, y: -0.09, size: 0.16, rotation: -30, color: '#F9A8D4', opacity: 0.95, delay: 0 },
+      { x: -0.19, y: -0.115, size: 0.2, rotation: -15, color: '#DB2777', opacity: 0.95, delay: 0.4 },
+      { x: 0, y: -0.11, size: 0.24, rotation: 0, color: '#F472B6', opacity: 0.95, delay: 0.8 },
+      { x: 0.19, y: -0.115, size: 0.2, rotation: 15, color: '#BE185D', opacity: 0.95, delay: 0.2 },
+      { x: 0.37, y: -0.09, size: 0.16, rotation: 30, color: '#FBCFE8', opacity: 0.95, delay: 0.6 },
+    ],
+  },
+  [MaskType.STARS]: {
+    anchor: MaskAnchor.CROWN,
+    followRoll: false,
+    showWithoutFace: true,
+    graphic: { viewBox: { width: 24, height: 24 }, paths: [{ d: STAR_PATH }] },
+    glow: { color: 'rgba(253, 224, 71, 0.6)', blur: 0.054 },
+    animation: { kind: 'float', period: 2, amplitude: 0.05 },
+    items: [
+      { x: -0.4, y: -0.15, size: 0.19, rotation: -20, color: '#FDE047', opacity: 0.95, delay: 0.1 },
+      { x: -0.21, y: -0.2, size: 0.15, rotation: -10, color: '#FEF08A', opacity: 0.95, delay: 0.5 },
+      { x: 0, y: -0.21, size: 0.23, rotation: 0, color: '#FCD34D', opacity: 0.95, delay: 0.9 },
+      { x: 0.21, y: -0.2, size: 0.15, rotation: 10, color: '#BAE6FD', opacity: 0.95, delay: 0.3 },
+      { x: 0.4, y: -0.15, size: 0.19, rotation: 20, color: '#FDE047', opacity: 0.95, delay: 0.7 },
+    ],
+  },
+  [MaskType.SUNGLASSES]: {
+    anchor: MaskAnchor.EYES,
+    followRoll: true,
+    showWithoutFace: false,
+    graphic: {
+      viewBox: { width: 100, height: 36 },
+      paths: [
+        { d: "M4 8 Q4 4 8 4 H40 Q44 4 44 8 V20 Q44 32 30 32 H18 Q4 32 4 20 Z", fill: "#111827" },
+        { d: "M56 8 Q56 4 60 4 H92 Q96 4 96 8 V20 Q96 32 82 32 H70 Q56 32 56 20 Z", fill: "#111827" },
+        { d: "M44 10 Q50 6 56 10 V13 Q50 9 44 13 Z", fill: "#111827" },
+        { d: "M10 9 H22 L14 18 H10 Z", fill: "rgba(255, 255, 255, 0.35)" },
+        { d: "M62 9 H74 L66 18 H62 Z", fill: "rgba(255, 255, 255, 0.35)" },
+      ],
+    },
+    items: [{ x: 0, y: 0.05, size: 0.95 }],
+  },
+  [MaskType.CAT_EARS]: {
+    anchor: MaskAnchor.HEAD_TOP,
+    followRoll: true,
+    showWithoutFace: false,
+    graphic: {
+      viewBox: { width: 100, height: 40 },
+      paths: [
+        { d: "M6 40 L14 2 L38 30 Z", fill: "#1F2937" },
+        { d: "M12 36 L16 12 L31 30 Z", fill: "#F9A8D4" },
+        { d: "M94 40 L86 2 L62 30 Z", fill: "#1F2937" },
+        { d: "M88 36 L84 12 L69 30 Z", fill: "#F9A8D4" },
+      ],
+    },
+    items: [{ x: 0, y: -0.26, size: 1.3 }],
+  },
+  [MaskType.MUSTACHE]: {
+    anchor: MaskAnchor.UPPER_LIP,
+    followRoll: true,
+    showWithoutFace: false,
+    graphic: {
+      viewBox: { width: 100, height: 30 },
+      paths: [
+        {
+          d: "M50 8 C42 0 28 2 20 10 C14 16 6 16 2 10 C4 22 18 28 32 22 C40 18 46 14 50 14 C54 14 60 18 68 22 C82 28 96 22 98 10 C94 16 86 16 80 10 C72 2 58 0 50 8 Z",
+          fill: "#3F2A1D",
+        },
+      ],
+    },
+    items: [{ x: 0, y: 0.025, size: 0.55 }],
+  },
+};
+
 export const FRAMES = [
-  { label: 'White', value: FrameColor.WHITE, text: '#000000' },
-  { label: 'Black', value: FrameColor.BLACK, text: '#FFFFFF' },
-  { label: 'Cream', value: FrameColor.CREAM, text: '#000000' },
-  { label: 'Blush', value: FrameColor.PINK, text: '#000000' },
-  { label: 'Sky', value: FrameColor.BLUE, text: '#000000' },
-  { label: 'Sage', value: FrameColor.SAGE, text: '#000000' },
-  { label: 'Butter', value: FrameColor.BUTTER, text: '#000000' },
-  { label: 'Lilac', value: FrameColor.LILAC, text: '#000000' },
+  { label: 'White', value: FrameColor.WHITE },
+  { label: 'Black', value: FrameColor.BLACK },
+  { label: 'Cream', value: FrameColor.CREAM },
+  { label: 'Blush', value: FrameColor.PINK },
+  { label: 'Sky', value: FrameColor.BLUE },
+  { label: 'Sage', value: FrameColor.SAGE },
+  { label: 'Butter', value: FrameColor.BUTTER },
+  { label: 'Lilac', value: FrameColor.LILAC },
+];
+
+export const FRAME_STYLES = [
+  { label: 'Solid', value: FrameStyle.SOLID },
+  { label: 'Linear', value: FrameStyle.LINEAR },
+  { label: 'Radial', value: FrameStyle.RADIAL },
+  { label: 'Checker', value: FrameStyle.CHECKER },
+  { label: 'Polka Dot', value: FrameStyle.POLKA },
+  { label: 'Stripes', value: FrameStyle.STRIPES },
+  { label: 'Image', value: FrameStyle.IMAGE },
 ];
 
-export const TIMERS = [5, 10, 15];
\ No newline at end of file
+export const FRAME_IMAGE_MAX_SIZE = 2400;
+
+export const TIMERS = [5, 10, 15];
+
+// Target face detections per second, detection runs in a worker where supported
+export const FACE_DETECTION_FPS = 15;
+
+// Face tracking stabilization (One-Euro filter on normalized coordinates + dropout hold-over)
+export const FACE_SMOOTHING: FaceSmoothingOptions = {
+  minCutoff: 1.0,
+  beta: 5.0,
+  derivativeCutoff: 1.0,
+  holdMs: 400,
+};
\ No newline at end of file
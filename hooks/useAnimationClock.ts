@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+
+// Seconds on the performance.now() clock, refreshed every animation frame while active.
+// Canvas renders read the same clock, so animated previews and captures stay in step.
+export const useAnimationClock = (active: boolean) => {
+  const [time, setTime] = useState(() => performance.now() / 1000);
+
+  useEffect(() => {
+    if (!active) return;
+
+    let raf: number;
+    const tick = () => {
+      setTime(performance.now() / 1000);
+      raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(raf);
+  }, [active]);
+
+  return time;
+};
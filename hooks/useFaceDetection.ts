@@ -1,75 +1,187 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { FaceData } from '../types';
+import { FACE_DETECTION_FPS, FACE_SMOOTHING } from '../constants';
+import {
+  assignFaceIds,
+  FaceDetectionResponse,
+  FaceSmoothingOptions,
+  FaceTrack,
+  RawFacePrediction,
+  toFaceBox,
+  updateFaceTracks
+} from '../utils/faceTracking';
 
-export const useFaceDetection = (videoRef: React.RefObject<HTMLVideoElement>, enabled: boolean) => {
-  const [faceData, setFaceData] = useState<FaceData | null>(null);
+export interface FaceDetectionOptions {
+  smoothing?: Partial<FaceSmoothingOptions>;
+  detectionFps?: number; // Target detections per second
+}
+
+// Frames sent to the worker are downscaled, blazeface works on a 128px input anyway
+const WORKER_FRAME_WIDTH = 640;
+
+const canUseWorker = () =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap !== 'undefined';
+
+export const useFaceDetection = (
+  videoRef: React.RefObject<HTMLVideoElement>,
+  enabled: boolean,
+  options: FaceDetectionOptions = {}
+) => {
+  const [faces, setFaces] = useState<FaceData[]>([]);
   const modelRef = useRef<any>(null);
   const rafRef = useRef<number | null>(null);
+  // Smoothed tracks (including faces in hold-over), used to carry IDs and filter state from frame to frame
+  const tracksRef = useRef<FaceTrack[]>([]);
+  const nextIdRef = useRef(1);
+  // Read through refs so callers can pass an inline object without restarting the loop
+  const smoothingRef = useRef<FaceSmoothingOptions>({ ...FACE_SMOOTHING, ...options.smoothing });
+  smoothingRef.current = { ...FACE_SMOOTHING, ...options.smoothing };
+  const fpsRef = useRef(options.detectionFps ?? FACE_DETECTION_FPS);
+  fpsRef.current = options.detectionFps ?? FACE_DETECTION_FPS;
+
+  // Detection worker, kept across enable/disable so the model only loads once.
+  // Set to null for good once it fails, detection then runs on the main thread.
+  const workerRef = useRef<Worker | null | undefined>(undefined);
+  const pendingRef = useRef(new Map<number, (response: FaceDetectionResponse) => void>());
+  const requestIdRef = useRef(0);
+
+  const getWorker = (): Worker | null => {
+    if (workerRef.current !== undefined) return workerRef.current;
+    if (!canUseWorker()) {
+      workerRef.current = null;
+      return null;
+    }
+
+    try {
+      const worker = new Worker(new URL('../workers/faceDetection.worker.ts', import.meta.url));
+      worker.onmessage = (event: MessageEvent<FaceDetectionResponse>) => {
+        const resolve = pendingRef.current.get(event.data.id);
+        pendingRef.current.delete(event.data.id);
+        resolve?.(event.data);
+      };
+      worker.onerror = (event) => {
+        console.warn("Face detection worker failed, using main thread", event);
+        disableWorker();
+      };
+      workerRef.current = worker;
+    } catch (e) {
+      workerRef.current = null;
+    }
+    return workerRef.current;
+  };
+
+  const disableWorker = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    // Unblock anything still waiting on the worker
+    pendingRef.current.forEach(resolve => resolve({ id: -1, frameWidth: 0, frameHeight: 0, error: "terminated" }));
+    pendingRef.current.clear();
+  };
+
+  // Terminate the worker on unmount
+  useEffect(() => {
+    return () => disableWorker();
+  }, []);
 
   // Initialize detection loop
   useEffect(() => {
     if (!enabled) {
       if (rafRef.current) cancelAnimationFrame(rafRef.current);
-      setFaceData(null);
+      tracksRef.current = [];
+      setFaces([]);
       return;
     }
 
-    const detect = async () => {
-      // 1. Try to load model if not loaded (handles late script loading)
+    let cancelled = false;
+    let busy = false;
+    let lastRun = 0;
+
+    const handlePredictions = (predictions: RawFacePrediction[], frameWidth: number, frameHeight: number, video: HTMLVideoElement) => {
+      const { videoWidth, videoHeight } = video;
+      const detections = predictions.map(p => toFaceBox(p, frameWidth, frameHeight, videoWidth, videoHeight));
+
+      const previousFaces = tracksRef.current.map(track => track.face);
+      const identified = assignFaceIds(previousFaces, detections, () => nextIdRef.current++);
+      tracksRef.current = updateFaceTracks(tracksRef.current, identified, performance.now(), smoothingRef.current);
+      const tracked = tracksRef.current.map(track => track.face);
+
+      // Avoid re-rendering every frame while nobody is in view
+      setFaces(prev => (prev.length === 0 && tracked.length === 0 ? prev : tracked));
+    };
+
+    // Off the main thread: ship a downscaled ImageBitmap to the worker
+    const detectInWorker = async (worker: Worker, video: HTMLVideoElement): Promise<boolean> => {
+      const scale = Math.min(1, WORKER_FRAME_WIDTH / video.videoWidth);
+      const frame = await createImageBitmap(video, {
+        resizeWidth: Math.round(video.videoWidth * scale),
+        resizeHeight: Math.round(video.videoHeight * scale),
+        resizeQuality: 'low'
+      });
+
+      const id = ++requestIdRef.current;
+      const response = await new Promise<FaceDetectionResponse>((resolve) => {
+        pendingRef.current.set(id, resolve);
+        worker.postMessage({ id, frame }, [frame]);
+      });
+
+      if (response.error || !response.predictions) {
+        console.warn("Face detection worker error, using main thread", response.error);
+        disableWorker();
+        return false;
+      }
+      if (!cancelled) handlePredictions(response.predictions, response.frameWidth, response.frameHeight, video);
+      return true;
+    };
+
+    // Fallback: detect on the main thread with the blazeface global from index.html
+    const detectOnMainThread = async (video: HTMLVideoElement) => {
+      // Try to load model if not loaded (handles late script loading)
       if (!modelRef.current && (window as any).blazeface) {
         try {
-          // Load the model. We can store the promise to avoid multiple loads, 
-          // but blazeface.load() is usually cheap to call or we can use a flag.
-          // ideally we just wait for it.
           modelRef.current = await (window as any).blazeface.load();
         } catch (e) {
           // console.warn("Model load pending...");
         }
       }
+      if (!modelRef.current) return;
 
-      // 2. Perform detection if everything is ready
-      if (modelRef.current && videoRef.current && videoRef.current.readyState >= 2) {
-        try {
-          const predictions = await modelRef.current.estimateFaces(videoRef.current, false);
-          
-          if (predictions.length > 0) {
-            const video = videoRef.current;
-            const { videoWidth, videoHeight } = video;
-            
-            const start = predictions[0].topLeft;
-            const end = predictions[0].bottomRight;
-            
-            // Calculate normalized coordinates
-            const x = (start[0] + end[0]) / 2 / videoWidth;
-            const y = (start[1] + end[1]) / 2 / videoHeight;
-            const w = (end[0] - start[0]) / videoWidth;
-            const h = (end[1] - start[1]) / videoHeight;
-
-            setFaceData({ 
-              x, y, 
-              width: w, 
-              height: h,
-              videoWidth,
-              videoHeight
-            });
-          } else {
-            setFaceData(null);
-          }
-        } catch (e) {
-          // Silently fail on frame error
-        }
+      const predictions = await modelRef.current.estimateFaces(video, false);
+      if (!cancelled) handlePredictions(predictions, video.videoWidth, video.videoHeight, video);
+    };
+
+    const detect = async () => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2 || video.videoWidth === 0) return;
+
+      try {
+        const worker = getWorker();
+        if (worker && await detectInWorker(worker, video)) return;
+        await detectOnMainThread(video);
+      } catch (e) {
+        // Silently fail on frame error
+      }
+    };
+
+    // Run at most one detection at a time, throttled to the target rate
+    const loop = (time: number) => {
+      if (cancelled) return;
+      if (!busy && time - lastRun >= 1000 / fpsRef.current) {
+        busy = true;
+        lastRun = time;
+        detect().finally(() => { busy = false; });
       }
-      
-      // 3. Loop
-      rafRef.current = requestAnimationFrame(detect);
+      rafRef.current = requestAnimationFrame(loop);
     };
 
-    detect();
+    rafRef.current = requestAnimationFrame(loop);
 
     return () => {
+      cancelled = true;
       if (rafRef.current) cancelAnimationFrame(rafRef.current);
     };
   }, [enabled]); // Removed videoRef from dependency to prevent effect thrashing, ref access is stable in loop
 
-  return faceData;
-};
\ No newline at end of file
+  return faces;
+};
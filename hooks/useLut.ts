@@ -0,0 +1,41 @@
+import { useEffect, useMemo, useState } from 'react';
+import { CustomLutConfig, FilterType } from '../types';
+import { CUSTOM_LUT_ID, LUT_PRESETS } from '../constants';
+import { Lut3D, loadLutPreset, parseCubeLut } from '../utils/lut';
+
+// Resolves the selected LUT (bundled preset or uploaded file). Null while loading or when no LUT is selected.
+export const useLut = (filterType: FilterType, lutId: string | null, customLut: CustomLutConfig | null) => {
+  const [presetLut, setPresetLut] = useState<Lut3D | null>(null);
+  const active = filterType === FilterType.LUT;
+  const preset = active ? LUT_PRESETS.find(p => p.value === lutId) : undefined;
+
+  // Uploads were validated when picked, parse again only when the file changes
+  const uploadedLut = useMemo(() => {
+    if (!customLut) return null;
+    try {
+      return parseCubeLut(customLut.data, customLut.name);
+    } catch (e) {
+      console.warn("Stored LUT is invalid", e);
+      return null;
+    }
+  }, [customLut]);
+
+  useEffect(() => {
+    if (!preset) {
+      setPresetLut(null);
+      return;
+    }
+
+    let cancelled = false;
+    loadLutPreset(preset.url, preset.label)
+      .then(lut => { if (!cancelled) setPresetLut(lut); })
+      .catch(e => {
+        console.warn(`Failed to load LUT "${preset.label}"`, e);
+        if (!cancelled) setPresetLut(null);
+      });
+    return () => { cancelled = true; };
+  }, [preset]);
+
+  if (!active) return null;
+  return lutId === CUSTOM_LUT_ID ? uploadedLut : presetLut;
+};
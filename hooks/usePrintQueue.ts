@@ -0,0 +1,57 @@
+import { useRef, useState } from 'react';
+import { PrintJob, PrintJobStatus, PrintSettings } from '../types';
+import { PrintPage, printPages, renderPrintSheet } from '../utils/print';
+
+// Composites waiting to be printed, across sessions. Kept in memory: composites are too large
+// for localStorage, and a queue is only useful while the booth is running.
+export const usePrintQueue = () => {
+  const [jobs, setJobs] = useState<PrintJob[]>([]);
+  const nextIdRef = useRef(1);
+
+  const setStatus = (ids: string[], status: PrintJobStatus) => {
+    setJobs(current => current.map(job => (ids.includes(job.id) ? { ...job, status } : job)));
+  };
+
+  const addJob = (image: string, settings: PrintSettings) => {
+    const job: PrintJob = { id: `print-${nextIdRef.current++}`, image, settings, createdAt: Date.now(), status: PrintJobStatus.QUEUED };
+    setJobs(current => [...current, job]);
+    return job;
+  };
+
+  const removeJob = (id: string) => {
+    setJobs(current => current.filter(job => job.id !== id));
+  };
+
+  // Prints the jobs in one run, each as many times as its copies. Rejects if a sheet fails to render.
+  const printJobs = async (toPrint: PrintJob[]) => {
+    const ids = toPrint.map(job => job.id);
+    const urls: string[] = [];
+    setStatus(ids, PrintJobStatus.PRINTING);
+    try {
+      const pages: PrintPage[] = [];
+      for (const job of toPrint) {
+        const sheet = await renderPrintSheet(job.image, job.settings);
+        const src = URL.createObjectURL(sheet.png);
+        urls.push(src);
+        for (let i = 0; i < job.settings.copies; i++) {
+          pages.push({ src, width: sheet.width, height: sheet.height, bleed: job.settings.bleed });
+        }
+      }
+      await printPages(pages);
+      setStatus(ids, PrintJobStatus.SENT);
+    } catch (e) {
+      setStatus(ids, PrintJobStatus.FAILED);
+      throw e;
+    } finally {
+      urls.forEach(url => URL.revokeObjectURL(url));
+    }
+  };
+
+  return {
+    jobs,
+    isPrinting: jobs.some(job => job.status === PrintJobStatus.PRINTING),
+    addJob,
+    removeJob,
+    printJobs,
+  };
+};
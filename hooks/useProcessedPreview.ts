@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { ChromaKeyConfig, CustomBackground } from '../types';
+import { Lut3D } from '../utils/lut';
+import { applyFilter } from '../utils/filters';
+import { applyChromaKey, getBackgroundSource } from '../utils/chromaKey';
+
+// LUTs and chroma key can't be expressed as CSS/SVG filters, so those previews are
+// processed on a canvas at this width
+const PREVIEW_CANVAS_WIDTH = 640;
+
+export interface ProcessedPreview {
+  enabled: boolean;
+  attach: (canvas: HTMLCanvasElement) => () => void; // Returns the detach function
+}
+
+// Runs the camera through the capture pipeline (chroma key, then LUT) once per video frame while
+// either is active, and copies the result to every attached canvas. Layout previews show the feed
+// in several slots; they share this one pass instead of each processing the frame.
+export const useProcessedPreview = (
+  videoRef: React.RefObject<HTMLVideoElement>,
+  lut: Lut3D | null, // Only while the LUT filter is selected
+  filterIntensity: number,
+  chromaKey: ChromaKeyConfig,
+  customBackgrounds: CustomBackground[]
+): ProcessedPreview => {
+  const targetsRef = useRef(new Set<HTMLCanvasElement>());
+  const backgroundSrc = chromaKey.enabled ? getBackgroundSource(chromaKey.backgroundId, customBackgrounds) : undefined;
+  const enabled = !!lut || !!backgroundSrc;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const frame = document.createElement('canvas');
+    let raf: number;
+    const draw = () => {
+      const video = videoRef.current;
+      const ctx = frame.getContext('2d');
+      if (video && ctx && targetsRef.current.size > 0 && video.readyState >= 2 && video.videoWidth > 0) {
+        const scale = Math.min(1, PREVIEW_CANVAS_WIDTH / video.videoWidth);
+        const width = Math.round(video.videoWidth * scale);
+        const height = Math.round(video.videoHeight * scale);
+        if (frame.width !== width || frame.height !== height) {
+          frame.width = width;
+          frame.height = height;
+        }
+        ctx.drawImage(video, 0, 0, width, height);
+        // The canvases are shown mirrored, so the scene is drawn flipped to read correctly
+        if (backgroundSrc) applyChromaKey(frame, chromaKey, backgroundSrc, true);
+        if (lut) applyFilter(frame, [], filterIntensity, lut);
+
+        targetsRef.current.forEach(target => {
+          if (target.width !== width || target.height !== height) {
+            target.width = width;
+            target.height = height;
+          }
+          target.getContext('2d')?.drawImage(frame, 0, 0);
+        });
+      }
+      raf = requestAnimationFrame(draw);
+    };
+    raf = requestAnimationFrame(draw);
+
+    return () => cancelAnimationFrame(raf);
+  }, [enabled, lut, filterIntensity, chromaKey, backgroundSrc, videoRef]);
+
+  const attach = useCallback((canvas: HTMLCanvasElement) => {
+    targetsRef.current.add(canvas);
+    return () => {
+      targetsRef.current.delete(canvas);
+    };
+  }, []);
+
+  return useMemo(() => ({ enabled, attach }), [enabled, attach]);
+};
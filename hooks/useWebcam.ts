@@ -1,35 +1,92 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
+import { StreamStatus } from '../types';
+
+// Persist the operator's camera choice across reloads
+const DEVICE_STORAGE_KEY = 'lets-take-a-pic:camera-device';
+
+const loadStoredDeviceId = (): string | null => {
+  try {
+    return localStorage.getItem(DEVICE_STORAGE_KEY);
+  } catch (e) {
+    return null;
+  }
+};
 
 export const useWebcam = () => {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [permissionGranted, setPermissionGranted] = useState(false);
+  const [streamStatus, setStreamStatus] = useState<StreamStatus>(StreamStatus.IDLE);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceIdState] = useState<string | null>(loadStoredDeviceId);
+
+  // List available video inputs. Labels are only populated once permission is granted.
+  const refreshDevices = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+    try {
+      const all = await navigator.mediaDevices.enumerateDevices();
+      const videoInputs = all.filter(d => d.kind === 'videoinput');
+      setDevices(videoInputs);
+      return videoInputs;
+    } catch (e) {
+      console.warn("Failed to enumerate camera devices", e);
+      return [];
+    }
+  }, []);
+
+  const setDeviceId = useCallback((id: string | null) => {
+    setDeviceIdState(id);
+    try {
+      if (id) {
+        localStorage.setItem(DEVICE_STORAGE_KEY, id);
+      } else {
+        localStorage.removeItem(DEVICE_STORAGE_KEY);
+      }
+    } catch (e) {
+      // Storage unavailable (private mode), keep the in-memory selection only
+    }
+  }, []);
 
   const startCamera = useCallback(async () => {
     const handleStream = (mediaStream: MediaStream) => {
+      streamRef.current = mediaStream;
       setStream(mediaStream);
       setPermissionGranted(true);
       setError(null);
       if (videoRef.current) {
         videoRef.current.srcObject = mediaStream;
       }
+      refreshDevices();
     };
 
     // Clear previous errors
     setError(null);
+    setStreamStatus(StreamStatus.CONNECTING);
+
+    // Release the current camera first so the new device can be opened (hot-swap)
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    }
 
-    // Attempt 1: Ideal Resolution (1080p), User Facing
+    // Use the selected device if there is one, otherwise prefer the user-facing camera
+    const source: MediaTrackConstraints = deviceId
+      ? { deviceId: { exact: deviceId } }
+      : { facingMode: "user" };
+
+    // Attempt 1: Ideal Resolution (1080p), Selected Source
     try {
       const constraints = {
         video: {
+          ...source,
           width: { ideal: 1920 },
           height: { ideal: 1080 },
-          facingMode: "user"
         },
         audio: false,
       };
-      
+
       const mediaStream = await navigator.mediaDevices.getUserMedia(constraints);
       handleStream(mediaStream);
       return;
@@ -37,19 +94,17 @@ export const useWebcam = () => {
       console.warn("High-quality camera constraint failed or timed out. Retrying with standard constraints...", e);
     }
 
-    // Attempt 2: Standard User Facing (No resolution constraints)
+    // Attempt 2: Selected Source (No resolution constraints)
     try {
       const constraints = {
-        video: {
-          facingMode: "user"
-        },
+        video: source,
         audio: false,
       };
       const mediaStream = await navigator.mediaDevices.getUserMedia(constraints);
       handleStream(mediaStream);
       return;
     } catch (e) {
-      console.warn("User-facing camera failed. Retrying with fallback...", e);
+      console.warn("Selected camera failed. Retrying with fallback...", e);
     }
 
     // Attempt 3: Fallback (Any video source)
@@ -58,9 +113,9 @@ export const useWebcam = () => {
       handleStream(mediaStream);
     } catch (err: any) {
       console.error("Critical error accessing camera:", err);
-      
+
       let errorMessage = "Unable to access camera.";
-      
+
       if (err.name === 'NotAllowedError') {
         errorMessage = "Camera permission denied. Please allow access in your browser settings.";
       } else if (err.name === 'NotFoundError') {
@@ -71,21 +126,74 @@ export const useWebcam = () => {
 
       setError(errorMessage);
       setPermissionGranted(false);
+      setStreamStatus(StreamStatus.ENDED);
     }
-  }, []);
+  }, [deviceId, refreshDevices]);
 
   const stopCamera = useCallback(() => {
-    if (stream) {
-      stream.getTracks().forEach(track => track.stop());
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
       setStream(null);
+      setStreamStatus(StreamStatus.IDLE);
     }
+  }, []);
+
+  // Watch the active video track so callers can react when the camera drops out.
+  // Note: track.stop() does not fire 'ended', so our own hot-swaps are not reported.
+  useEffect(() => {
+    const track = stream?.getVideoTracks()[0];
+    if (!track) return;
+
+    const updateStatus = () => {
+      if (track.readyState === 'ended') {
+        setStreamStatus(StreamStatus.ENDED);
+      } else if (track.muted) {
+        setStreamStatus(StreamStatus.MUTED);
+      } else {
+        setStreamStatus(StreamStatus.LIVE);
+      }
+    };
+
+    updateStatus();
+    track.addEventListener('ended', updateStatus);
+    track.addEventListener('mute', updateStatus);
+    track.addEventListener('unmute', updateStatus);
+    return () => {
+      track.removeEventListener('ended', updateStatus);
+      track.removeEventListener('mute', updateStatus);
+      track.removeEventListener('unmute', updateStatus);
+    };
   }, [stream]);
 
+  // Keep the device list current when cameras are plugged in or removed
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices?.addEventListener) return;
+
+    const handleDeviceChange = async () => {
+      const videoInputs = await refreshDevices();
+      const isAvailable = (id: string) => videoInputs.some(d => d.deviceId === id);
+      const storedId = loadStoredDeviceId();
+
+      if (storedId && storedId !== deviceId && isAvailable(storedId)) {
+        // Remembered camera was plugged back in, switch back to it
+        setDeviceIdState(storedId);
+      } else if (deviceId && !isAvailable(deviceId)) {
+        // Selected camera was unplugged, fall back to the default one but keep the stored choice
+        setDeviceIdState(null);
+      }
+    };
+
+    mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+  }, [deviceId, refreshDevices]);
+
   useEffect(() => {
     return () => {
       stopCamera();
     };
   }, [stopCamera]);
 
-  return { videoRef, stream, error, permissionGranted, startCamera, stopCamera };
-};
\ No newline at end of file
+  return { videoRef, stream, streamStatus, error, permissionGranted, devices, deviceId, setDeviceId, startCamera, stopCamera };
+};
@@ -5,6 +5,15 @@ export enum AppState {
   CAPTURE = 'CAPTURE', // The moment of taking the photo
   PROCESSING = 'PROCESSING', // Between shots
   RESULT = 'RESULT',
+  LAYOUT_EDITOR = 'LAYOUT_EDITOR', // Designing a custom layout
+}
+
+export enum StreamStatus {
+  IDLE = 'idle', // No stream requested yet or camera stopped
+  CONNECTING = 'connecting', // getUserMedia in flight
+  LIVE = 'live',
+  MUTED = 'muted', // Track alive but temporarily not delivering frames
+  ENDED = 'ended', // Track died (unplugged, taken by another app) or could not be opened
 }
 
 export enum FilterType {
@@ -16,6 +25,49 @@ export enum FilterType {
   RETRO = 'contrast(110%) brightness(90%) sepia(30%) saturate(120%) hue-rotate(-10deg)',
   CYBERPUNK = 'contrast(115%) brightness(110%) saturate(180%) hue-rotate(190deg)',
   DREAMY = 'contrast(90%) brightness(110%) saturate(110%) sepia(20%)',
+  CUSTOM = 'custom', // Built from PhotoConfig.customFilter
+  LUT = 'lut', // 3D LUT selected by PhotoConfig.lutId
+}
+
+// A .cube file uploaded by the user, kept as text so it can be stored locally
+export interface CustomLutConfig {
+  name: string;
+  data: string;
+}
+
+// Film texture layer toggles (see drawFilmEffects)
+export interface FilmEffects {
+  grain: boolean;
+  vignette: boolean;
+  lightLeak: boolean;
+  dust: boolean;
+  dateStamp: boolean;
+}
+
+// Green screen background replacement
+export interface ChromaKeyConfig {
+  enabled: boolean;
+  keyColor: string; // hex
+  tolerance: number; // 0-100, how far from the key color is still replaced
+  spill: number; // 0-100, desaturation of key-colored fringes
+  backgroundId: string; // BACKGROUNDS value or a CustomBackground id
+}
+
+export interface CustomBackground {
+  id: string;
+  name: string;
+  image: string; // data URL
+}
+
+// Slider values of the custom filter builder
+export interface CustomFilterSettings {
+  brightness: number; // %, 100 = unchanged
+  contrast: number; // %
+  saturation: number; // %
+  hue: number; // degrees
+  warmth: number; // -100 (cool) to 100 (warm)
+  sepia: number; // %
+  grayscale: number; // %
 }
 
 export enum AnimationType {
@@ -28,10 +80,94 @@ export enum AnimationType {
   PULSE = 'pulse',
 }
 
+// Timing function between two keyframes, as in CSS
+export type AnimationEasing = 'linear' | { bezier: [number, number, number, number] } | { steps: number };
+
+// Properties left out of a keyframe keep their neutral value
+export interface AnimationKeyframe {
+  offset: number; // 0-1 through the cycle
+  scale?: number;
+  rotate?: number; // degrees
+  opacity?: number;
+  brightness?: number; // 1 = unchanged
+  saturate?: number;
+  hueRotate?: number; // degrees
+  blur?: number; // CSS pixels of the on-screen strip
+}
+
+export interface AnimationDefinition {
+  duration: number; // seconds per cycle
+  easing: AnimationEasing;
+  keyframes: AnimationKeyframe[]; // Sorted, from offset 0 to 1
+}
+
 export enum MaskType {
   NONE = 'none',
   HEARTS = 'hearts',
   STARS = 'stars',
+  SUNGLASSES = 'sunglasses',
+  CAT_EARS = 'cat-ears',
+  MUSTACHE = 'mustache',
+  CUSTOM = 'custom', // Operator-uploaded sticker, see CustomMaskConfig
+}
+
+export enum AspectRatio {
+  LANDSCAPE = '4:3',
+  SQUARE = '1:1',
+  PORTRAIT = '3:4',
+  WIDE = '16:9',
+}
+
+// Point on the face a mask is attached to
+export enum MaskAnchor {
+  CROWN = 'crown', // Above the forehead, like the original hearts/stars halo
+  HEAD_TOP = 'head-top', // Top of the head along the head's axis
+  EYES = 'eyes', // Midpoint between the eyes
+  UPPER_LIP = 'upper-lip', // Between nose and mouth
+}
+
+// Artwork drawn for each item, in its own viewBox. Paths without a fill use the item color.
+export interface MaskGraphic {
+  viewBox: { width: number; height: number };
+  paths?: { d: string; fill?: string }[];
+  image?: string; // URL or data URL, stretched to the viewBox
+}
+
+export interface MaskAnimation {
+  kind: 'float' | 'pulse';
+  period: number; // seconds
+  amplitude: number; // float: face widths of travel, pulse: scale delta
+}
+
+export interface MaskItem {
+  x: number; // Offset of the item centre from the anchor, in face widths (y points down)
+  y: number;
+  size: number; // Item width in face widths
+  rotation?: number; // degrees
+  color?: string;
+  opacity?: number;
+  delay?: number; // Animation phase offset, seconds
+}
+
+// Declarative mask: renders identically in the VideoFeed overlay and on the capture canvas
+export interface MaskDefinition {
+  anchor: MaskAnchor;
+  followRoll: boolean; // Rotate with the head
+  showWithoutFace: boolean; // Draw at a default position while no face is detected
+  graphic: MaskGraphic;
+  items: MaskItem[];
+  glow?: { color: string; blur: number }; // blur in face widths
+  animation?: MaskAnimation;
+}
+
+// Uploaded sticker placed relative to the face box
+export interface CustomMaskConfig {
+  image: string; // Data URL (PNG or SVG)
+  imageWidth: number;
+  imageHeight: number;
+  anchor: MaskAnchor;
+  scale: number; // Sticker width in face widths
+  offsetY: number; // Shift from the anchor in face widths (negative = up)
 }
 
 export enum GridType {
@@ -39,6 +175,131 @@ export enum GridType {
   STRIP_3 = '1x3',
   STRIP_4 = '1x4',
   GRID_2X2 = '2x2',
+  GRID_2X3 = '2x3',
+  GRID_3X2 = '3x2',
+  POLAROID = 'polaroid',
+  HERO = 'hero',
+}
+
+// Box in layout template units, rotated about its centre
+export interface LayoutRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation?: number; // degrees
+}
+
+// Photos fill their slot (object-fit: cover), in capture order
+export type LayoutPhotoSlot = LayoutRect;
+
+export interface LayoutTextSlot extends LayoutRect {
+  text: string; // {title}, {subtitle} and {date} are filled in from the footer settings
+  font: 'serif' | 'sans';
+  size: number; // Font size in template units
+  align?: 'left' | 'center' | 'right';
+  color?: string; // Defaults to the footer text color for the frame
+}
+
+// A filled box or an image (logos, artwork), drawn under the photos by default
+export interface LayoutDecoration extends LayoutRect {
+  fill?: string;
+  image?: string;
+  radius?: number;
+  above?: boolean; // Drawn over the photos instead (tape, stickers)
+}
+
+export interface LayoutTemplate {
+  width: number;
+  height: number;
+  photos: LayoutPhotoSlot[];
+  texts: LayoutTextSlot[];
+  decorations: LayoutDecoration[];
+  footer?: LayoutRect; // Title, date and QR code
+}
+
+export interface FontSpec {
+  family: string; // CSS font-family
+  style: string;
+  weight: number;
+}
+
+export enum DateFormat {
+  NONE = 'none',
+  SHORT = 'short',
+  MEDIUM = 'medium',
+  LONG = 'long',
+  ISO = 'iso',
+}
+
+export enum FooterFont {
+  PLAYFAIR = 'playfair',
+  OUTFIT = 'outfit',
+  SCRIPT = 'script',
+  BEBAS = 'bebas',
+}
+
+export interface FooterLogo {
+  image: string; // Data URL (PNG or SVG)
+  width: number;
+  height: number;
+}
+
+// Text and branding in the footer area of the composite
+export interface FooterConfig {
+  title: string;
+  subtitle: string;
+  dateFormat: DateFormat;
+  locale: string; // BCP 47 tag for the date, empty for the browser's
+  font: FooterFont; // Title font, the subtitle and date use the sans
+  textColor: string | null; // null picks a color that reads on the frame background
+  logo: FooterLogo | null;
+}
+
+export enum PrintSize {
+  STRIP_2X6 = '2x6',
+  PORTRAIT_4X6 = '4x6',
+  LANDSCAPE_6X4 = '6x4',
+  PORTRAIT_5X7 = '5x7',
+}
+
+// Layout designed in the editor; its template is in print units (see LAYOUT_UNITS_PER_INCH)
+export interface CustomLayout {
+  id: string;
+  name: string;
+  printSize: PrintSize;
+  template: LayoutTemplate;
+}
+
+export enum PaperSize {
+  PHOTO_4X6 = '4x6',
+  PHOTO_5X7 = '5x7',
+  A6 = 'a6',
+}
+
+// Print file export from the result screen
+export interface PrintSettings {
+  paperSize: PaperSize;
+  dpi: number;
+  twoUp: boolean; // Two copies on one sheet, e.g. 2x6 strips on 4x6 paper
+  bleed: number; // Inches the picture runs past the paper edge on each side
+  copies: number; // Sheets printed per session
+}
+
+export enum PrintJobStatus {
+  QUEUED = 'queued',
+  PRINTING = 'printing',
+  SENT = 'sent',
+  FAILED = 'failed',
+}
+
+// A session's composite waiting in (or sent from) the print queue
+export interface PrintJob {
+  id: string;
+  image: string; // Composite data URL
+  settings: PrintSettings; // As chosen when the job was queued
+  createdAt: number;
+  status: PrintJobStatus;
 }
 
 export enum FrameColor {
@@ -52,13 +313,70 @@ export enum FrameColor {
   LILAC = '#E5D4EF',
 }
 
+export enum FrameStyle {
+  SOLID = 'solid',
+  LINEAR = 'linear',
+  RADIAL = 'radial',
+  CHECKER = 'checker',
+  POLKA = 'polka',
+  STRIPES = 'stripes',
+  IMAGE = 'image',
+}
+
+// Background of the composite around the photos
+export interface FrameBackground {
+  style: FrameStyle;
+  color: string; // Solid fill, first gradient stop, pattern base
+  color2: string; // Second gradient stop, pattern ink
+  angle: number; // Linear gradient and stripes, CSS degrees (0 points up)
+  image: string | null; // Data URL for FrameStyle.IMAGE
+  imageTone: string | null; // Average color of the image, picks the text color
+}
+
 export interface PhotoConfig {
   timerDuration: number; // seconds
   gridType: GridType;
+  customLayoutId: string | null; // Takes the place of gridType when set
+  customLayouts: CustomLayout[];
+  aspectRatio: AspectRatio;
   filterType: FilterType;
-  frameColor: FrameColor;
+  filterIntensity: number; // 0-1, blends the filtered image with the original
+  customFilter: CustomFilterSettings;
+  lutId: string | null; // LUT_PRESETS value or CUSTOM_LUT_ID
+  customLut: CustomLutConfig | null;
+  filmEffects: FilmEffects;
+  chromaKey: ChromaKeyConfig;
+  customBackgrounds: CustomBackground[];
+  frame: FrameBackground;
+  footer: FooterConfig;
+  print: PrintSettings;
   animationType: AnimationType;
   maskType: MaskType;
+  customMask: CustomMaskConfig | null;
+}
+
+// Frames of the moving strip for GIF/APNG export, drawn on demand so the encoders only hold one at a time
+export interface AnimatedImageSource {
+  width: number;
+  height: number;
+  frameCount: number;
+  delay: number; // ms per frame
+  renderFrame: (index: number) => HTMLCanvasElement; // The same canvas, redrawn
+}
+
+// Video encoded with WebCodecs, ready to be muxed
+export interface EncodedVideoTrack {
+  codec: string; // WebCodecs codec string
+  width: number;
+  height: number;
+  description: Uint8Array<ArrayBuffer>; // Decoder configuration (avcC for H.264), empty for VP8/VP9
+}
+
+export interface EncodedVideoSample {
+  data: Uint8Array<ArrayBuffer>;
+  timestamp: number; // microseconds
+  duration: number; // microseconds
+  keyframe: boolean;
 }
 
 export interface CapturedImage {
@@ -66,11 +384,24 @@ export interface CapturedImage {
   dataUrl: string; // Base64
 }
 
+// blazeface keypoints, normalized (x, y) like the face box. Left/right are the subject's.
+export interface FaceLandmarks {
+  rightEye: [number, number];
+  leftEye: [number, number];
+  nose: [number, number];
+  mouth: [number, number];
+  rightEar: [number, number];
+  leftEar: [number, number];
+}
+
 export interface FaceData {
+  id: number; // Stable per person across frames
   x: number;
   y: number;
   width: number;
   height: number;
   videoWidth: number;
   videoHeight: number;
+  landmarks?: FaceLandmarks;
+  roll: number; // Head roll in degrees from the eye line, 0 = upright
 }
\ No newline at end of file
@@ -0,0 +1,194 @@
+// Strip animations (the anim-* classes on screen) as time-based canvas drawing, so the exported
+// video moves the same way. Keyframes come from ANIMATION_DEFINITIONS and are eased like CSS.
+
+import { AnimatedImageSource, AnimationEasing, AnimationKeyframe, AnimationType } from "../types";
+import { ANIMATION_DEFINITIONS } from "../constants";
+import { applyFilter, parseFilter } from "./filters";
+
+// Keyframe blur is in CSS pixels of the strip on the result screen (max-h-[75vh]);
+// this is roughly its long side there, used to scale blur to the exported size.
+const REFERENCE_SIZE = 720;
+
+type AnimatedProperty = Exclude<keyof AnimationKeyframe, 'offset'>;
+
+const NEUTRAL: Record<AnimatedProperty, number> = {
+  scale: 1,
+  rotate: 0,
+  opacity: 1,
+  brightness: 1,
+  saturate: 1,
+  hueRotate: 0,
+  blur: 0,
+};
+
+export type AnimationState = Record<AnimatedProperty, number>;
+
+// CSS cubic-bezier(): solve x(t) = progress for t, then return y(t)
+const cubicBezier = (x1: number, y1: number, x2: number, y2: number) => {
+  const curve = (a: number, b: number, t: number) => 3 * a * (1 - t) * (1 - t) * t + 3 * b * (1 - t) * t * t + t * t * t;
+
+  return (progress: number) => {
+    let low = 0;
+    let high = 1;
+    let t = progress;
+    for (let i = 0; i < 20; i++) {
+      const x = curve(x1, x2, t);
+      if (Math.abs(x - progress) < 1e-4) break;
+      if (x < progress) low = t;
+      else high = t;
+      t = (low + high) / 2;
+    }
+    return curve(y1, y2, t);
+  };
+};
+
+const ease = (easing: AnimationEasing, progress: number) => {
+  if (easing === 'linear') return progress;
+  if ('steps' in easing) return Math.floor(progress * easing.steps) / easing.steps; // steps(n, jump-end)
+  return cubicBezier(...easing.bezier)(progress);
+};
+
+/**
+ * Property values of an animation at a point in time (seconds since it started).
+ * Like CSS, the timing function applies to each keyframe interval separately.
+ */
+export const getAnimationState = (type: AnimationType, time: number): AnimationState => {
+  const definition = ANIMATION_DEFINITIONS[type];
+  if (!definition) return { ...NEUTRAL };
+
+  const { keyframes, duration, easing } = definition;
+  const cycle = ((time % duration) + duration) % duration / duration;
+  let index = keyframes.findIndex((_, i) => i < keyframes.length - 1 && cycle < keyframes[i + 1].offset);
+  if (index === -1) index = keyframes.length - 2;
+
+  const from = keyframes[index];
+  const to = keyframes[index + 1];
+  const span = to.offset - from.offset;
+  const progress = ease(easing, span > 0 ? (cycle - from.offset) / span : 1);
+
+  const state = { ...NEUTRAL };
+  (Object.keys(NEUTRAL) as AnimatedProperty[]).forEach(key => {
+    const a = from[key] ?? NEUTRAL[key];
+    const b = to[key] ?? NEUTRAL[key];
+    state[key] = a + (b - a) * progress;
+  });
+  return state;
+};
+
+const toCssFilter = (state: AnimationState) => [
+  state.brightness !== 1 && `brightness(${state.brightness})`,
+  state.saturate !== 1 && `saturate(${state.saturate})`,
+  state.hueRotate % 360 !== 0 && `hue-rotate(${state.hueRotate}deg)`,
+].filter(Boolean).join(' ');
+
+// Scratch canvases reused across frames
+let workCanvas: HTMLCanvasElement | null = null;
+let blurCanvas: HTMLCanvasElement | null = null;
+
+const getCanvas = (canvas: HTMLCanvasElement | null, width: number, height: number) => {
+  const target = canvas ?? document.createElement("canvas");
+  if (target.width !== width) target.width = width;
+  if (target.height !== height) target.height = height;
+  return target;
+};
+
+// ctx.filter blur where supported, otherwise a downscale/upscale pass which softens about as much
+const drawBlurred = (ctx: CanvasRenderingContext2D, source: CanvasImageSource, width: number, height: number, radius: number) => {
+  if (typeof ctx.filter === 'string') {
+    ctx.filter = `blur(${radius}px)`;
+    ctx.drawImage(source, 0, 0, width, height);
+    ctx.filter = 'none';
+    return;
+  }
+
+  const factor = 1 + radius / 2;
+  const smallWidth = Math.max(1, Math.round(width / factor));
+  const smallHeight = Math.max(1, Math.round(height / factor));
+  blurCanvas = getCanvas(blurCanvas, smallWidth, smallHeight);
+  const blurCtx = blurCanvas.getContext("2d");
+  if (!blurCtx) {
+    ctx.drawImage(source, 0, 0, width, height);
+    return;
+  }
+  blurCtx.drawImage(source, 0, 0, smallWidth, smallHeight);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(blurCanvas, 0, 0, width, height);
+};
+
+/**
+ * Draws one frame of an animated strip: the source with the animation's color and blur applied,
+ * transformed about its centre over the backdrop (the page behind the strip on screen).
+ */
+export const drawAnimatedFrame = (
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  type: AnimationType,
+  time: number, // seconds
+  backdrop = '#FFFFFF'
+) => {
+  const state = getAnimationState(type, time);
+  const filter = toCssFilter(state);
+  const blur = state.blur * Math.max(width, height) / REFERENCE_SIZE;
+
+  let image = source;
+  if (filter || blur > 0.1) {
+    workCanvas = getCanvas(workCanvas, width, height);
+    const workCtx = workCanvas.getContext("2d");
+    if (workCtx) {
+      workCtx.clearRect(0, 0, width, height);
+      if (blur > 0.1) drawBlurred(workCtx, source, width, height, blur);
+      else workCtx.drawImage(source, 0, 0, width, height);
+      if (filter) applyFilter(workCanvas, parseFilter(filter));
+      image = workCanvas;
+    }
+  }
+
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.fillStyle = backdrop;
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.globalAlpha = state.opacity;
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate(state.rotate * Math.PI / 180);
+  ctx.scale(state.scale, state.scale);
+  ctx.drawImage(image, -width / 2, -height / 2, width, height);
+  ctx.restore();
+};
+
+/**
+ * The composites of the moving strip as frames for GIF/APNG export: fitted to maxSize, with the
+ * animation baked in like the video. The loop lasts duration seconds; animated strips are
+ * redrawn at fps so the motion stays smooth between clip frames.
+ */
+export const createAnimatedImageSource = (
+  frames: HTMLImageElement[],
+  type: AnimationType,
+  duration: number, // seconds
+  maxSize: number,
+  fps: number
+): AnimatedImageSource => {
+  const scale = Math.min(1, maxSize / Math.max(frames[0].naturalWidth, frames[0].naturalHeight));
+  const width = Math.round(frames[0].naturalWidth * scale);
+  const height = Math.round(frames[0].naturalHeight * scale);
+  const frameCount = type === AnimationType.NONE ? frames.length : Math.max(frames.length, Math.round(duration * fps));
+  const delay = duration * 1000 / frameCount;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas is not available");
+  ctx.imageSmoothingQuality = 'high';
+
+  const renderFrame = (index: number) => {
+    const frame = frames[Math.floor(index * frames.length / frameCount)];
+    if (type === AnimationType.NONE) ctx.drawImage(frame, 0, 0, width, height);
+    else drawAnimatedFrame(ctx, frame, width, height, type, index * delay / 1000);
+    return canvas;
+  };
+
+  return { width, height, frameCount, delay, renderFrame };
+};
@@ -0,0 +1,84 @@
+// Animated PNG: each frame is encoded by the browser (canvas.toBlob) and its image data moved
+// into fdAT chunks behind an fcTL frame header. Full frames, no disposal, so any viewer that
+// only knows PNG still shows the first frame.
+
+import { AnimatedImageSource } from "../types";
+import { PNG_SIGNATURE, createPngChunk, readPngChunks } from "./png";
+
+interface ApngFrame {
+  data: Uint8Array[]; // IDAT payloads
+  start: number; // ms
+}
+
+const getPayload = (chunk: Uint8Array) => chunk.subarray(8, chunk.length - 4);
+
+const samePayloads = (a: Uint8Array[], b: Uint8Array[]) =>
+  a.length === b.length && a.every((data, i) => data.length === b[i].length && data.every((byte, j) => byte === b[i][j]));
+
+const createFrameControl = (sequence: number, width: number, height: number, delayMs: number) => {
+  const data = new Uint8Array(26);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, sequence);
+  view.setUint32(4, width);
+  view.setUint32(8, height);
+  view.setUint32(12, 0); // x offset
+  view.setUint32(16, 0); // y offset
+  // Delay as a fraction of a second; hundredths once milliseconds overflow 16 bits
+  const inMs = delayMs <= 0xffff;
+  view.setUint16(20, Math.max(1, Math.round(inMs ? delayMs : delayMs / 10)));
+  view.setUint16(22, inMs ? 1000 : 100);
+  data[24] = 0; // Dispose: none
+  data[25] = 0; // Blend: source
+  return createPngChunk('fcTL', data);
+};
+
+/**
+ * Encodes the frames as a looping APNG. Yields to the browser between frames and reports
+ * progress (0-1) if asked.
+ */
+export const encodeApng = async (source: AnimatedImageSource, onProgress?: (progress: number) => void): Promise<Blob> => {
+  const { width, height, frameCount, delay } = source;
+  let header: Uint8Array<ArrayBuffer> | null = null;
+  const frames: ApngFrame[] = [];
+
+  for (let i = 0; i < frameCount; i++) {
+    const png = await new Promise<Blob | null>(resolve => source.renderFrame(i).toBlob(resolve, "image/png"));
+    if (!png) throw new Error("The frame could not be encoded");
+    const chunks = readPngChunks(new Uint8Array(await png.arrayBuffer()));
+    header = header ?? chunks.find(chunk => chunk.type === 'IHDR')?.bytes ?? null;
+    const data = chunks.filter(chunk => chunk.type === 'IDAT').map(chunk => getPayload(chunk.bytes));
+
+    // Repeated frames become one longer frame
+    const previous = frames[frames.length - 1];
+    if (!previous || !samePayloads(previous.data, data)) frames.push({ data, start: i * delay });
+
+    onProgress?.((i + 1) / frameCount);
+  }
+  if (!header) throw new Error("The frames could not be encoded");
+
+  const animationControl = new Uint8Array(8);
+  const view = new DataView(animationControl.buffer);
+  view.setUint32(0, frames.length);
+  view.setUint32(4, 0); // Loop forever
+
+  const parts: BlobPart[] = [new Uint8Array(PNG_SIGNATURE), header, createPngChunk('acTL', animationControl)];
+  let sequence = 0;
+  frames.forEach((frame, i) => {
+    const end = i + 1 < frames.length ? frames[i + 1].start : frameCount * delay;
+    parts.push(createFrameControl(sequence++, width, height, end - frame.start));
+    frame.data.forEach(data => {
+      // The first frame is the default image; the others carry a sequence number before the data
+      if (i === 0) {
+        parts.push(createPngChunk('IDAT', data));
+        return;
+      }
+      const frameData = new Uint8Array(4 + data.length);
+      new DataView(frameData.buffer).setUint32(0, sequence++);
+      frameData.set(data, 4);
+      parts.push(createPngChunk('fdAT', frameData));
+    });
+  });
+  parts.push(createPngChunk('IEND', new Uint8Array(0)));
+
+  return new Blob(parts, { type: 'image/apng' });
+};
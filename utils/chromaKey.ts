@@ -0,0 +1,249 @@
+// Chroma key (green screen) background replacement. Pixels are keyed on their chroma (Cb/Cr)
+// distance to the key color, so shadows and highlights on the screen key out evenly.
+// Runs on WebGL when available and on the CPU otherwise, with the same math in both.
+
+import { ChromaKeyConfig, CustomBackground } from "../types";
+import { BACKGROUNDS } from "../constants";
+import { FRAGMENT_PRECISION, copyToCanvas, createFullscreenProgram, createTexture, uploadCanvas } from "./webgl";
+
+// Tolerance slider (0-100) maps onto this chroma distance; Cb and Cr span -0.5 to 0.5
+const MAX_TOLERANCE = 0.4;
+// Width of the soft edge between replaced and kept pixels
+const EDGE_SOFTNESS = 0.06;
+// Distance past the edge over which key-colored spill is still suppressed
+const SPILL_RANGE = 0.25;
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255];
+};
+
+// BT.601 chroma
+const toChroma = (r: number, g: number, b: number): [number, number] => [
+  -0.168736 * r - 0.331264 * g + 0.5 * b,
+  0.5 * r - 0.418688 * g - 0.081312 * b,
+];
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+/**
+ * Image source for a background id: a bundled scene or one of the user's uploads.
+ */
+export const getBackgroundSource = (backgroundId: string, customBackgrounds: CustomBackground[] = []): string | undefined =>
+  BACKGROUNDS.find(b => b.value === backgroundId)?.url ?? customBackgrounds.find(b => b.id === backgroundId)?.image;
+
+// --- Background images ---
+
+const imageCache = new Map<string, HTMLImageElement>();
+
+export const preloadBackground = (src: string): HTMLImageElement | null => {
+  let img = imageCache.get(src);
+  if (!img) {
+    img = new Image();
+    img.src = src;
+    imageCache.set(src, img);
+  }
+  return img.complete && img.naturalWidth > 0 ? img : null;
+};
+
+// Backgrounds scaled to cover a frame size. Preview, clip frames and stills use different sizes,
+// so a few are kept rather than redrawing the scene for every frame.
+const MAX_SCALED_BACKGROUNDS = 4;
+interface ScaledBackground {
+  key: string;
+  canvas: HTMLCanvasElement;
+  pixels: Uint8ClampedArray | null; // Read back lazily, only the CPU path needs them
+}
+const scaledBackgrounds = new Map<string, ScaledBackground>();
+
+const getScaledBackground = (img: HTMLImageElement, src: string, width: number, height: number, mirrored: boolean): ScaledBackground | null => {
+  const key = `${src}|${width}x${height}|${mirrored}`;
+  const cached = scaledBackgrounds.get(key);
+  if (cached) return cached;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+
+  // object-fit: cover
+  const scale = Math.max(width / img.naturalWidth, height / img.naturalHeight);
+  const drawWidth = img.naturalWidth * scale;
+  const drawHeight = img.naturalHeight * scale;
+  if (mirrored) {
+    ctx.translate(width, 0);
+    ctx.scale(-1, 1);
+  }
+  ctx.drawImage(img, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+
+  if (scaledBackgrounds.size >= MAX_SCALED_BACKGROUNDS) {
+    scaledBackgrounds.delete(scaledBackgrounds.keys().next().value!);
+  }
+  const entry: ScaledBackground = { key, canvas, pixels: null };
+  scaledBackgrounds.set(key, entry);
+  return entry;
+};
+
+// --- CPU pipeline ---
+
+const keyPixels = (
+  data: Uint8ClampedArray,
+  background: Uint8ClampedArray,
+  keyChroma: [number, number],
+  tolerance: number,
+  spill: number
+) => {
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i] / 255;
+    const g = data[i + 1] / 255;
+    const b = data[i + 2] / 255;
+    const [cb, cr] = toChroma(r, g, b);
+    const distance = Math.hypot(cb - keyChroma[0], cr - keyChroma[1]);
+
+    const alpha = smoothstep(tolerance, tolerance + EDGE_SOFTNESS, distance);
+    const spillAmount = spill * (1 - smoothstep(tolerance, tolerance + SPILL_RANGE, distance));
+    const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+
+    const fr = r + (luma - r) * spillAmount;
+    const fg = g + (luma - g) * spillAmount;
+    const fb = b + (luma - b) * spillAmount;
+
+    data[i] = (background[i] / 255 + (fr - background[i] / 255) * alpha) * 255;
+    data[i + 1] = (background[i + 1] / 255 + (fg - background[i + 1] / 255) * alpha) * 255;
+    data[i + 2] = (background[i + 2] / 255 + (fb - background[i + 2] / 255) * alpha) * 255;
+    data[i + 3] = 255;
+  }
+};
+
+// --- WebGL pipeline ---
+
+const FRAGMENT_SHADER = `${FRAGMENT_PRECISION}
+varying vec2 uv;
+uniform sampler2D image;
+uniform sampler2D background;
+uniform vec2 keyChroma;
+uniform float tolerance;
+uniform float spill;
+vec2 toChroma(vec3 c) {
+  return vec2(dot(c, vec3(-0.168736, -0.331264, 0.5)), dot(c, vec3(0.5, -0.418688, -0.081312)));
+}
+void main() {
+  vec3 color = texture2D(image, uv).rgb;
+  float dist = distance(toChroma(color), keyChroma);
+  float alpha = smoothstep(tolerance, tolerance + ${EDGE_SOFTNESS.toFixed(2)}, dist);
+  float spillAmount = spill * (1.0 - smoothstep(tolerance, tolerance + ${SPILL_RANGE.toFixed(2)}, dist));
+  float luma = dot(color, vec3(0.299, 0.587, 0.114));
+  vec3 foreground = mix(color, vec3(luma), spillAmount);
+  gl_FragColor = vec4(mix(texture2D(background, uv).rgb, foreground, alpha), 1.0);
+}`;
+
+interface GLKeyRenderer {
+  canvas: HTMLCanvasElement;
+  gl: WebGLRenderingContext;
+  imageTexture: WebGLTexture | null;
+  backgroundTexture: WebGLTexture | null;
+  backgroundKey: string | null; // Scaled background currently uploaded
+  locations: Record<'keyChroma' | 'tolerance' | 'spill', WebGLUniformLocation | null>;
+}
+
+// Shared context; null once WebGL turned out to be unavailable
+let glRenderer: GLKeyRenderer | null | undefined;
+
+const createGLRenderer = (): GLKeyRenderer | null => {
+  try {
+    const setup = createFullscreenProgram(FRAGMENT_SHADER);
+    if (!setup) return null;
+    const { canvas, gl, program } = setup;
+
+    const backgroundTexture = createTexture(gl, gl.TEXTURE1, gl.NEAREST);
+    const imageTexture = createTexture(gl, gl.TEXTURE0, gl.NEAREST);
+    gl.uniform1i(gl.getUniformLocation(program, "image"), 0);
+    gl.uniform1i(gl.getUniformLocation(program, "background"), 1);
+
+    return {
+      canvas,
+      gl,
+      imageTexture,
+      backgroundTexture,
+      backgroundKey: null,
+      locations: {
+        keyChroma: gl.getUniformLocation(program, "keyChroma"),
+        tolerance: gl.getUniformLocation(program, "tolerance"),
+        spill: gl.getUniformLocation(program, "spill"),
+      },
+    };
+  } catch (e) {
+    console.warn("WebGL chroma key unavailable, using CPU pipeline", e);
+    return null;
+  }
+};
+
+const getGLRenderer = () => {
+  if (glRenderer === undefined) glRenderer = createGLRenderer();
+  if (glRenderer && glRenderer.gl.isContextLost()) glRenderer = null;
+  return glRenderer;
+};
+
+/**
+ * Replaces the pixels of the canvas that match the key color with a background image, in place.
+ * mirrorBackground flips the scene for canvases that are shown mirrored (the live preview), so it
+ * reads the same way as in the mirrored capture. Returns false, leaving the canvas untouched,
+ * while the background image is still loading.
+ */
+export const applyChromaKey = (
+  canvas: HTMLCanvasElement,
+  settings: ChromaKeyConfig,
+  backgroundSrc: string,
+  mirrorBackground = false
+): boolean => {
+  const { width, height } = canvas;
+  const img = preloadBackground(backgroundSrc);
+  if (!img || width === 0 || height === 0) return false;
+
+  const background = getScaledBackground(img, backgroundSrc, width, height, mirrorBackground);
+  if (!background) return false;
+
+  const keyChroma = toChroma(...hexToRgb(settings.keyColor));
+  const tolerance = (settings.tolerance / 100) * MAX_TOLERANCE;
+  const spill = settings.spill / 100;
+
+  const renderer = getGLRenderer();
+  if (renderer) {
+    try {
+      const { gl, locations } = renderer;
+      renderer.canvas.width = width;
+      renderer.canvas.height = height;
+      gl.viewport(0, 0, width, height);
+
+      gl.uniform2f(locations.keyChroma, keyChroma[0], keyChroma[1]);
+      gl.uniform1f(locations.tolerance, tolerance);
+      gl.uniform1f(locations.spill, spill);
+
+      if (renderer.backgroundKey !== background.key) {
+        uploadCanvas(gl, gl.TEXTURE1, renderer.backgroundTexture, background.canvas);
+        renderer.backgroundKey = background.key;
+      }
+      uploadCanvas(gl, gl.TEXTURE0, renderer.imageTexture, canvas);
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+      if (gl.getError() === gl.NO_ERROR && copyToCanvas(renderer.canvas, canvas)) return true;
+    } catch (e) {
+      console.warn("WebGL chroma key failed, using CPU pipeline", e);
+    }
+    // Force a fresh upload if the GPU path is tried again
+    renderer.backgroundKey = null;
+  }
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return false;
+  background.pixels ??= background.canvas.getContext("2d")?.getImageData(0, 0, width, height).data ?? null;
+  if (!background.pixels) return false;
+
+  const imageData = ctx.getImageData(0, 0, width, height);
+  keyPixels(imageData.data, background.pixels, keyChroma, tolerance, spill);
+  ctx.putImageData(imageData, 0, 0);
+  return true;
+};
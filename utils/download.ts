@@ -0,0 +1,22 @@
+// Saving files from the browser: a temporary link with the download attribute.
+
+/**
+ * Starts a download of a data: or blob: URL. The caller keeps ownership of the URL.
+ */
+export const downloadUrl = (url: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+/**
+ * Downloads a blob, releasing its object URL once the download has started.
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, filename);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
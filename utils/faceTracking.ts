@@ -0,0 +1,225 @@
+import { FaceData, FaceLandmarks } from "../types";
+
+// A raw detection before it has been matched to a tracked face
+export type FaceBox = Omit<FaceData, 'id'>;
+
+// blazeface prediction (returnTensors = false), in pixels of the frame it ran on
+export interface RawFacePrediction {
+  topLeft: [number, number];
+  bottomRight: [number, number];
+  // right eye, left eye, nose, mouth, right ear, left ear
+  landmarks?: [number, number][];
+}
+
+const LANDMARK_KEYS: (keyof FaceLandmarks)[] = ['rightEye', 'leftEye', 'nose', 'mouth', 'rightEar', 'leftEar'];
+
+// Messages exchanged with workers/faceDetection.worker.ts
+export interface FaceDetectionRequest {
+  id: number;
+  frame: ImageBitmap; // Transferred, the worker closes it
+}
+
+export interface FaceDetectionResponse {
+  id: number;
+  predictions?: RawFacePrediction[];
+  frameWidth: number;
+  frameHeight: number;
+  error?: string;
+}
+
+/**
+ * Converts a prediction to normalized coordinates. The frame may be a downscaled copy of the video,
+ * so coordinates are normalized by the frame size while videoWidth/videoHeight keep the real resolution.
+ */
+export const toFaceBox = (
+  prediction: RawFacePrediction,
+  frameWidth: number,
+  frameHeight: number,
+  videoWidth: number,
+  videoHeight: number
+): FaceBox => {
+  const start = prediction.topLeft;
+  const end = prediction.bottomRight;
+
+  let landmarks: FaceLandmarks | undefined;
+  let roll = 0;
+  if (prediction.landmarks && prediction.landmarks.length >= LANDMARK_KEYS.length) {
+    landmarks = {} as FaceLandmarks;
+    LANDMARK_KEYS.forEach((key, i) => {
+      const [px, py] = prediction.landmarks![i];
+      landmarks![key] = [px / frameWidth, py / frameHeight];
+    });
+
+    // Eye line angle in pixels. In the raw (unmirrored) frame the subject's right eye is on the left.
+    const dx = (landmarks.leftEye[0] - landmarks.rightEye[0]) * videoWidth;
+    const dy = (landmarks.leftEye[1] - landmarks.rightEye[1]) * videoHeight;
+    roll = Math.atan2(dy, dx) * 180 / Math.PI;
+  }
+
+  return {
+    x: (start[0] + end[0]) / 2 / frameWidth,
+    y: (start[1] + end[1]) / 2 / frameHeight,
+    width: (end[0] - start[0]) / frameWidth,
+    height: (end[1] - start[1]) / frameHeight,
+    videoWidth,
+    videoHeight,
+    landmarks,
+    roll
+  };
+};
+
+/**
+ * Landmarks for a face, estimated from the face box when the detector didn't provide any.
+ */
+export const getFaceLandmarks = (face: FaceData): FaceLandmarks => {
+  if (face.landmarks) return face.landmarks;
+
+  const { x, y, width: w, height: h } = face;
+  return {
+    rightEye: [x - w * 0.2, y - h * 0.1],
+    leftEye: [x + w * 0.2, y - h * 0.1],
+    nose: [x, y + h * 0.08],
+    mouth: [x, y + h * 0.25],
+    rightEar: [x - w * 0.5, y],
+    leftEar: [x + w * 0.5, y],
+  };
+};
+
+// Max distance between face centres (in face widths) for two detections to count as the same person
+const MAX_MATCH_DISTANCE = 0.75;
+
+/**
+ * Matches this frame's detections to the previously tracked faces so each person keeps a stable ID.
+ * Closest pairs are matched first (greedy), unmatched detections get a fresh ID.
+ */
+export const assignFaceIds = (
+  previous: FaceData[],
+  detections: FaceBox[],
+  nextId: () => number
+): FaceData[] => {
+  const pairs: { prevIndex: number; detIndex: number; distance: number }[] = [];
+
+  previous.forEach((prev, prevIndex) => {
+    detections.forEach((det, detIndex) => {
+      // Compare in pixels so horizontal and vertical movement weigh the same
+      const dx = (prev.x - det.x) * det.videoWidth;
+      const dy = (prev.y - det.y) * det.videoHeight;
+      const faceWidthPx = Math.max(prev.width, det.width) * det.videoWidth;
+      const distance = Math.hypot(dx, dy) / faceWidthPx;
+
+      if (distance <= MAX_MATCH_DISTANCE) {
+        pairs.push({ prevIndex, detIndex, distance });
+      }
+    });
+  });
+
+  pairs.sort((a, b) => a.distance - b.distance);
+
+  const usedPrevious = new Set<number>();
+  const assignedIds: (number | undefined)[] = [];
+
+  for (const { prevIndex, detIndex } of pairs) {
+    if (usedPrevious.has(prevIndex) || assignedIds[detIndex] !== undefined) continue;
+    usedPrevious.add(prevIndex);
+    assignedIds[detIndex] = previous[prevIndex].id;
+  }
+
+  return detections.map((det, i) => ({ ...det, id: assignedIds[i] ?? nextId() }));
+};
+
+export interface FaceSmoothingOptions {
+  minCutoff: number; // Hz. Lower = smoother when still, more lag
+  beta: number; // Speed coefficient. Higher = less lag on fast moves
+  derivativeCutoff: number; // Hz, cutoff used to smooth the speed estimate
+  holdMs: number; // How long a face stays on screen after its detection drops out
+}
+
+// One-Euro filter state for a single value (https://gery.casiez.net/1euro/)
+interface OneEuroState {
+  value: number;
+  derivative: number;
+}
+
+type SmoothedKey = 'x' | 'y' | 'width' | 'height' | 'roll';
+const SMOOTHED_KEYS: SmoothedKey[] = ['x', 'y', 'width', 'height', 'roll'];
+
+export interface FaceTrack {
+  face: FaceData; // Smoothed output
+  filters: Record<SmoothedKey, OneEuroState>;
+  lastSeen: number; // ms timestamp of the last real detection
+}
+
+const smoothingFactor = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+const oneEuro = (state: OneEuroState, value: number, dt: number, options: FaceSmoothingOptions): OneEuroState => {
+  const rawDerivative = (value - state.value) / dt;
+  const dAlpha = smoothingFactor(options.derivativeCutoff, dt);
+  const derivative = state.derivative + dAlpha * (rawDerivative - state.derivative);
+
+  // Cutoff rises with speed: heavy smoothing while still, little lag while moving
+  const cutoff = options.minCutoff + options.beta * Math.abs(derivative);
+  const alpha = smoothingFactor(cutoff, dt);
+  return { value: state.value + alpha * (value - state.value), derivative };
+};
+
+/**
+ * Runs each identified detection through its track's One-Euro filters.
+ * Tracks without a detection this frame keep their last smoothed position until holdMs has passed.
+ */
+export const updateFaceTracks = (
+  tracks: FaceTrack[],
+  detections: FaceData[],
+  now: number,
+  options: FaceSmoothingOptions
+): FaceTrack[] => {
+  const byId = new Map(tracks.map(track => [track.face.id, track]));
+  const next: FaceTrack[] = [];
+
+  detections.forEach(det => {
+    const track = byId.get(det.id);
+    byId.delete(det.id);
+
+    if (!track) {
+      // New face: start the filters at the raw position
+      const filters = {} as Record<SmoothedKey, OneEuroState>;
+      SMOOTHED_KEYS.forEach(key => { filters[key] = { value: det[key], derivative: 0 }; });
+      next.push({ face: det, filters, lastSeen: now });
+      return;
+    }
+
+    // Clamp dt so a stalled frame doesn't produce a huge derivative
+    const dt = Math.min(Math.max((now - track.lastSeen) / 1000, 1 / 120), 0.5);
+    const filters = {} as Record<SmoothedKey, OneEuroState>;
+    const face = { ...det };
+    SMOOTHED_KEYS.forEach(key => {
+      filters[key] = oneEuro(track.filters[key], det[key], dt, options);
+      face[key] = filters[key].value;
+    });
+
+    // Landmarks follow the smoothed box: same offset from the centre, scaled with the box
+    if (det.landmarks) {
+      const scaleX = face.width / det.width;
+      const scaleY = face.height / det.height;
+      const landmarks = {} as FaceLandmarks;
+      LANDMARK_KEYS.forEach(key => {
+        const [lx, ly] = det.landmarks![key];
+        landmarks[key] = [face.x + (lx - det.x) * scaleX, face.y + (ly - det.y) * scaleY];
+      });
+      face.landmarks = landmarks;
+    }
+
+    next.push({ face, filters, lastSeen: now });
+  });
+
+  // Hold-over for faces that dropped out this frame
+  byId.forEach(track => {
+    if (now - track.lastSeen <= options.holdMs) {
+      next.push(track);
+    }
+  });
+
+  return next;
+};
@@ -0,0 +1,401 @@
+// Color filter engine. FilterType presets are CSS filter strings; instead of relying on
+// ctx.filter (ignored by Safari) they are parsed into color matrices and applied here,
+// on the GPU through WebGL when available and on the CPU otherwise. 3D LUTs run through
+// the same pipeline, after the matrices.
+
+import { CustomFilterSettings, FilterType } from "../types";
+import { Lut3D } from "./lut";
+import { FRAGMENT_PRECISION, copyToCanvas, createFullscreenProgram, createTexture, uploadCanvas } from "./webgl";
+
+// 4x5 row-major matrix in feColorMatrix layout. Offsets (5th column) are in the 0-1 range.
+export type ColorMatrix = number[];
+
+// Luminance weights used by the CSS filter functions
+const LR = 0.2126;
+const LG = 0.7152;
+const LB = 0.0722;
+
+const brightness = (v: number): ColorMatrix => [
+  v, 0, 0, 0, 0,
+  0, v, 0, 0, 0,
+  0, 0, v, 0, 0,
+  0, 0, 0, 1, 0,
+];
+
+const contrast = (v: number): ColorMatrix => {
+  const o = 0.5 - 0.5 * v;
+  return [
+    v, 0, 0, 0, o,
+    0, v, 0, 0, o,
+    0, 0, v, 0, o,
+    0, 0, 0, 1, 0,
+  ];
+};
+
+const saturate = (s: number): ColorMatrix => [
+  0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s, 0, 0,
+  0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s, 0, 0,
+  0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s, 0, 0,
+  0, 0, 0, 1, 0,
+];
+
+const grayscale = (amount: number): ColorMatrix => {
+  const a = 1 - Math.min(1, amount);
+  return [
+    LR + (1 - LR) * a, LG - LG * a, LB - LB * a, 0, 0,
+    LR - LR * a, LG + (1 - LG) * a, LB - LB * a, 0, 0,
+    LR - LR * a, LG - LG * a, LB + (1 - LB) * a, 0, 0,
+    0, 0, 0, 1, 0,
+  ];
+};
+
+const sepia = (amount: number): ColorMatrix => {
+  const a = 1 - Math.min(1, amount);
+  return [
+    0.393 + 0.607 * a, 0.769 - 0.769 * a, 0.189 - 0.189 * a, 0, 0,
+    0.349 - 0.349 * a, 0.686 + 0.314 * a, 0.168 - 0.168 * a, 0, 0,
+    0.272 - 0.272 * a, 0.534 - 0.534 * a, 0.131 + 0.869 * a, 0, 0,
+    0, 0, 0, 1, 0,
+  ];
+};
+
+const hueRotate = (degrees: number): ColorMatrix => {
+  const rad = degrees * Math.PI / 180;
+  const c = Math.cos(rad);
+  const s = Math.sin(rad);
+  return [
+    0.213 + c * 0.787 - s * 0.213, 0.715 - c * 0.715 - s * 0.715, 0.072 - c * 0.072 + s * 0.928, 0, 0,
+    0.213 - c * 0.213 + s * 0.143, 0.715 + c * 0.285 + s * 0.140, 0.072 - c * 0.072 - s * 0.283, 0, 0,
+    0.213 - c * 0.213 - s * 0.787, 0.715 - c * 0.715 + s * 0.715, 0.072 + c * 0.928 + s * 0.072, 0, 0,
+    0, 0, 0, 1, 0,
+  ];
+};
+
+const invert = (amount: number): ColorMatrix => {
+  const a = Math.min(1, amount);
+  const v = 1 - 2 * a;
+  return [
+    v, 0, 0, 0, a,
+    0, v, 0, 0, a,
+    0, 0, v, 0, a,
+    0, 0, 0, 1, 0,
+  ];
+};
+
+// Warm shifts red up and blue down, cool does the opposite. amount is -1 to 1.
+const warmth = (amount: number): ColorMatrix => [
+  1 + 0.15 * amount, 0, 0, 0, 0,
+  0, 1 + 0.03 * amount, 0, 0, 0,
+  0, 0, 1 - 0.15 * amount, 0, 0,
+  0, 0, 0, 1, 0,
+];
+
+// "110%" -> 1.1, "1.1" -> 1.1
+const parseAmount = (arg: string) => {
+  const value = parseFloat(arg);
+  return arg.trim().endsWith('%') ? value / 100 : value;
+};
+
+// "-10deg" -> -10, "0.5turn" -> 180, "1rad" -> 57.3
+const parseAngle = (arg: string) => {
+  const value = parseFloat(arg);
+  if (arg.endsWith('turn')) return value * 360;
+  if (arg.endsWith('grad')) return value * 0.9;
+  if (arg.endsWith('rad')) return value * 180 / Math.PI;
+  return value;
+};
+
+/**
+ * Parses a CSS filter string into the color matrices it is made of, in order.
+ * Only the color functions used by the presets are supported; anything else is ignored.
+ */
+export const parseFilter = (filter: string): ColorMatrix[] => {
+  const steps: ColorMatrix[] = [];
+  const pattern = /([a-z-]+)\(([^)]*)\)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(filter)) !== null) {
+    const [, name, arg] = match;
+    switch (name) {
+      case 'brightness': steps.push(brightness(parseAmount(arg))); break;
+      case 'contrast': steps.push(contrast(parseAmount(arg))); break;
+      case 'saturate': steps.push(saturate(parseAmount(arg))); break;
+      case 'grayscale': steps.push(grayscale(parseAmount(arg))); break;
+      case 'sepia': steps.push(sepia(parseAmount(arg))); break;
+      case 'hue-rotate': steps.push(hueRotate(parseAngle(arg))); break;
+      case 'invert': steps.push(invert(parseAmount(arg))); break;
+      default:
+        console.warn(`Unsupported filter function "${name}" ignored`);
+    }
+  }
+  return steps;
+};
+
+// Builder sliders to matrices. Sliders at their neutral value add no step.
+const getCustomFilterSteps = (settings: CustomFilterSettings): ColorMatrix[] => {
+  const steps: ColorMatrix[] = [];
+  if (settings.brightness !== 100) steps.push(brightness(settings.brightness / 100));
+  if (settings.contrast !== 100) steps.push(contrast(settings.contrast / 100));
+  if (settings.saturation !== 100) steps.push(saturate(settings.saturation / 100));
+  if (settings.hue !== 0) steps.push(hueRotate(settings.hue));
+  if (settings.warmth !== 0) steps.push(warmth(settings.warmth / 100));
+  if (settings.sepia !== 0) steps.push(sepia(settings.sepia / 100));
+  if (settings.grayscale !== 0) steps.push(grayscale(settings.grayscale / 100));
+  return steps;
+};
+
+/**
+ * Color matrices for a filter selection: the parsed preset, or the builder settings for FilterType.CUSTOM.
+ */
+export const getFilterSteps = (filter: FilterType, customFilter?: CustomFilterSettings): ColorMatrix[] => {
+  if (filter === FilterType.CUSTOM) {
+    return customFilter ? getCustomFilterSteps(customFilter) : [];
+  }
+  // The grade comes from the LUT itself
+  if (filter === FilterType.LUT) return [];
+  return parseFilter(filter);
+};
+
+// --- CPU pipeline ---
+
+const clamp01 = (v: number) => (v < 0 ? 0 : v > 1 ? 1 : v);
+
+// Trilinear LUT lookup, same sampling as the shader. Writes into out.
+const sampleLut = (lut: Lut3D, r: number, g: number, b: number, out: number[]) => {
+  const { size, data, domainMin, domainMax } = lut;
+  const max = size - 1;
+  const fr = clamp01((r - domainMin[0]) / (domainMax[0] - domainMin[0])) * max;
+  const fg = clamp01((g - domainMin[1]) / (domainMax[1] - domainMin[1])) * max;
+  const fb = clamp01((b - domainMin[2]) / (domainMax[2] - domainMin[2])) * max;
+  const r0 = Math.floor(fr), g0 = Math.floor(fg), b0 = Math.floor(fb);
+  const r1 = Math.min(r0 + 1, max), g1 = Math.min(g0 + 1, max), b1 = Math.min(b0 + 1, max);
+  const dr = fr - r0, dg = fg - g0, db = fb - b0;
+
+  for (let c = 0; c < 3; c++) {
+    const at = (ri: number, gi: number, bi: number) => data[(ri + gi * size + bi * size * size) * 3 + c];
+    const c00 = at(r0, g0, b0) + (at(r1, g0, b0) - at(r0, g0, b0)) * dr;
+    const c10 = at(r0, g1, b0) + (at(r1, g1, b0) - at(r0, g1, b0)) * dr;
+    const c01 = at(r0, g0, b1) + (at(r1, g0, b1) - at(r0, g0, b1)) * dr;
+    const c11 = at(r0, g1, b1) + (at(r1, g1, b1) - at(r0, g1, b1)) * dr;
+    const c0 = c00 + (c10 - c00) * dg;
+    const c1 = c01 + (c11 - c01) * dg;
+    out[c] = clamp01(c0 + (c1 - c0) * db);
+  }
+};
+
+// Each step is clamped like a separate filter primitive, so results match the GPU path.
+// The result is then blended with the original pixel by intensity.
+const applyToPixels = (data: Uint8ClampedArray, steps: ColorMatrix[], intensity: number, lut: Lut3D | null) => {
+  const graded = [0, 0, 0];
+  for (let i = 0; i < data.length; i += 4) {
+    const r0 = data[i] / 255;
+    const g0 = data[i + 1] / 255;
+    const b0 = data[i + 2] / 255;
+    let r = r0;
+    let g = g0;
+    let b = b0;
+    for (const m of steps) {
+      const nr = clamp01(m[0] * r + m[1] * g + m[2] * b + m[4]);
+      const ng = clamp01(m[5] * r + m[6] * g + m[7] * b + m[9]);
+      const nb = clamp01(m[10] * r + m[11] * g + m[12] * b + m[14]);
+      r = nr; g = ng; b = nb;
+    }
+    if (lut) {
+      sampleLut(lut, r, g, b, graded);
+      [r, g, b] = graded;
+    }
+    data[i] = (r0 + (r - r0) * intensity) * 255;
+    data[i + 1] = (g0 + (g - g0) * intensity) * 255;
+    data[i + 2] = (b0 + (b - b0) * intensity) * 255;
+  }
+};
+
+// --- WebGL pipeline ---
+
+const MAX_STEPS = 8;
+
+const FRAGMENT_SHADER = `${FRAGMENT_PRECISION}
+varying vec2 uv;
+uniform sampler2D image;
+uniform mat3 matrices[${MAX_STEPS}];
+uniform vec3 offsets[${MAX_STEPS}];
+uniform int stepCount;
+uniform float intensity;
+// 3D LUT stored as a 2D atlas: lutSize slices of lutSize x lutSize side by side, one per blue value
+uniform bool useLut;
+uniform sampler2D lut;
+uniform float lutSize;
+uniform vec3 domainMin;
+uniform vec3 domainMax;
+vec3 applyLut(vec3 c) {
+  c = clamp((c - domainMin) / (domainMax - domainMin), 0.0, 1.0) * (lutSize - 1.0);
+  float b0 = floor(c.b);
+  float b1 = min(b0 + 1.0, lutSize - 1.0);
+  // Texel centres, the hardware filter interpolates red and green within a slice
+  vec2 texel = c.rg + 0.5;
+  float width = lutSize * lutSize;
+  vec3 s0 = texture2D(lut, vec2((b0 * lutSize + texel.x) / width, texel.y / lutSize)).rgb;
+  vec3 s1 = texture2D(lut, vec2((b1 * lutSize + texel.x) / width, texel.y / lutSize)).rgb;
+  return mix(s0, s1, c.b - b0);
+}
+void main() {
+  vec4 color = texture2D(image, uv);
+  vec3 rgb = color.rgb;
+  for (int i = 0; i < ${MAX_STEPS}; i++) {
+    if (i >= stepCount) break;
+    rgb = clamp(matrices[i] * rgb + offsets[i], 0.0, 1.0);
+  }
+  if (useLut) rgb = applyLut(rgb);
+  gl_FragColor = vec4(mix(color.rgb, rgb, intensity), color.a);
+}`;
+
+interface GLFilterRenderer {
+  canvas: HTMLCanvasElement;
+  gl: WebGLRenderingContext;
+  matricesLocation: WebGLUniformLocation | null;
+  offsetsLocation: WebGLUniformLocation | null;
+  stepCountLocation: WebGLUniformLocation | null;
+  intensityLocation: WebGLUniformLocation | null;
+  imageTexture: WebGLTexture | null;
+  lutTexture: WebGLTexture | null;
+  lutSource: Lut3D | null; // LUT currently uploaded to lutTexture
+  maxTextureSize: number;
+  locations: Record<'useLut' | 'lutSize' | 'domainMin' | 'domainMax', WebGLUniformLocation | null>;
+}
+
+// One shared context for every capture; null once WebGL turned out to be unavailable
+let glRenderer: GLFilterRenderer | null | undefined;
+
+const createGLRenderer = (): GLFilterRenderer | null => {
+  try {
+    const setup = createFullscreenProgram(FRAGMENT_SHADER);
+    if (!setup) return null;
+    const { canvas, gl, program } = setup;
+
+    // The LUT atlas is filtered for interpolation
+    const lutTexture = createTexture(gl, gl.TEXTURE1, gl.LINEAR);
+    // Placeholder until a LUT is uploaded, an empty texture is incomplete even when unused
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, 1, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, new Uint8Array([0, 0, 0, 255]));
+    const imageTexture = createTexture(gl, gl.TEXTURE0, gl.NEAREST);
+    gl.uniform1i(gl.getUniformLocation(program, "image"), 0);
+    gl.uniform1i(gl.getUniformLocation(program, "lut"), 1);
+
+    return {
+      canvas,
+      gl,
+      matricesLocation: gl.getUniformLocation(program, "matrices"),
+      offsetsLocation: gl.getUniformLocation(program, "offsets"),
+      stepCountLocation: gl.getUniformLocation(program, "stepCount"),
+      intensityLocation: gl.getUniformLocation(program, "intensity"),
+      imageTexture,
+      lutTexture,
+      lutSource: null,
+      maxTextureSize: gl.getParameter(gl.MAX_TEXTURE_SIZE),
+      locations: {
+        useLut: gl.getUniformLocation(program, "useLut"),
+        lutSize: gl.getUniformLocation(program, "lutSize"),
+        domainMin: gl.getUniformLocation(program, "domainMin"),
+        domainMax: gl.getUniformLocation(program, "domainMax"),
+      },
+    };
+  } catch (e) {
+    console.warn("WebGL filter renderer unavailable, using CPU pipeline", e);
+    return null;
+  }
+};
+
+const getGLRenderer = () => {
+  if (glRenderer === undefined) glRenderer = createGLRenderer();
+  if (glRenderer && glRenderer.gl.isContextLost()) glRenderer = null;
+  return glRenderer;
+};
+
+// Packs the LUT into the atlas texture, only when a different LUT is used
+const uploadLut = (renderer: GLFilterRenderer, lut: Lut3D) => {
+  const { gl } = renderer;
+  gl.activeTexture(gl.TEXTURE1);
+  gl.bindTexture(gl.TEXTURE_2D, renderer.lutTexture);
+  if (renderer.lutSource === lut) return;
+
+  const { size, data } = lut;
+  const width = size * size;
+  const pixels = new Uint8Array(width * size * 4);
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const src = (r + g * size + b * size * size) * 3;
+        const dst = ((b * size + r) + g * width) * 4;
+        pixels[dst] = Math.round(clamp01(data[src]) * 255);
+        pixels[dst + 1] = Math.round(clamp01(data[src + 1]) * 255);
+        pixels[dst + 2] = Math.round(clamp01(data[src + 2]) * 255);
+        pixels[dst + 3] = 255;
+      }
+    }
+  }
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, size, 0, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+  renderer.lutSource = lut;
+};
+
+const applyWithWebGL = (renderer: GLFilterRenderer, canvas: HTMLCanvasElement, steps: ColorMatrix[], intensity: number, lut: Lut3D | null): boolean => {
+  const { gl, locations } = renderer;
+  renderer.canvas.width = canvas.width;
+  renderer.canvas.height = canvas.height;
+  gl.viewport(0, 0, canvas.width, canvas.height);
+
+  // mat3 uniforms are column-major
+  const matrices = new Float32Array(MAX_STEPS * 9);
+  const offsets = new Float32Array(MAX_STEPS * 3);
+  steps.forEach((m, i) => {
+    matrices.set([m[0], m[5], m[10], m[1], m[6], m[11], m[2], m[7], m[12]], i * 9);
+    offsets.set([m[4], m[9], m[14]], i * 3);
+  });
+  gl.uniformMatrix3fv(renderer.matricesLocation, false, matrices);
+  gl.uniform3fv(renderer.offsetsLocation, offsets);
+  gl.uniform1i(renderer.stepCountLocation, steps.length);
+  gl.uniform1f(renderer.intensityLocation, intensity);
+
+  gl.uniform1i(locations.useLut, lut ? 1 : 0);
+  if (lut) {
+    uploadLut(renderer, lut);
+    gl.uniform1f(locations.lutSize, lut.size);
+    gl.uniform3fv(locations.domainMin, lut.domainMin);
+    gl.uniform3fv(locations.domainMax, lut.domainMax);
+  }
+
+  uploadCanvas(gl, gl.TEXTURE0, renderer.imageTexture, canvas);
+  gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+  if (gl.getError() !== gl.NO_ERROR) return false;
+
+  return copyToCanvas(renderer.canvas, canvas);
+};
+
+/**
+ * Applies color matrices (see getFilterSteps) and an optional 3D LUT to the canvas contents in place,
+ * blended with the original by intensity (0-1). Runs on WebGL when available and falls back to a
+ * pixel loop, both giving the same result.
+ */
+export const applyFilter = (canvas: HTMLCanvasElement, steps: ColorMatrix[], intensity = 1, lut: Lut3D | null = null) => {
+  if ((steps.length === 0 && !lut) || intensity <= 0 || canvas.width === 0 || canvas.height === 0) return;
+  intensity = Math.min(1, intensity);
+
+  let renderer = steps.length <= MAX_STEPS ? getGLRenderer() : null;
+  // Very large LUTs may not fit in a single atlas texture
+  if (renderer && lut && lut.size * lut.size > renderer.maxTextureSize) renderer = null;
+  if (renderer) {
+    try {
+      if (applyWithWebGL(renderer, canvas, steps, intensity, lut)) return;
+    } catch (e) {
+      console.warn("WebGL filter failed, using CPU pipeline", e);
+    }
+  }
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  applyToPixels(imageData.data, steps, intensity, lut);
+  ctx.putImageData(imageData, 0, 0);
+};
+
+// Space-separated matrix values for an SVG <feColorMatrix>, so the live preview runs the same math
+export const toSvgMatrixValues = (matrix: ColorMatrix) => matrix.join(' ');
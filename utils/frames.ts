@@ -0,0 +1,233 @@
+// Frame backgrounds: colors, gradients, patterns and images behind the photos. The canvas drawing
+// and the CSS used by the previews share the same geometry, so a preview matches the composite.
+
+import type { CSSProperties } from "react";
+import { FrameBackground, FrameStyle } from "../types";
+
+// Pattern sizes, as fractions of the shorter side of the frame
+export const CHECKER_CELL = 0.04;
+export const POLKA_TILE = 0.05;
+export const POLKA_RADIUS = 0.3; // Of the tile
+export const STRIPE_WIDTH = 0.025;
+
+const TEXT_LIGHT = '#FFFFFF';
+const TEXT_DARK = '#1A1A1A';
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+// WCAG relative luminance
+const getLuminance = (hex: string) => {
+  const [r, g, b] = hexToRgb(hex).map(v => {
+    const c = v / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+const getContrastRatio = (a: number, b: number) => (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+
+const hasImage = (frame: FrameBackground) => frame.style === FrameStyle.IMAGE && !!frame.image;
+
+// Average luminance of the frame, from how much of it each color covers
+const getFrameLuminance = (frame: FrameBackground) => {
+  const base = getLuminance(frame.color);
+  const ink = getLuminance(frame.color2);
+  switch (frame.style) {
+    case FrameStyle.LINEAR:
+    case FrameStyle.RADIAL:
+    case FrameStyle.CHECKER:
+    case FrameStyle.STRIPES:
+      return (base + ink) / 2;
+    case FrameStyle.POLKA: {
+      const dots = Math.PI * POLKA_RADIUS * POLKA_RADIUS;
+      return base * (1 - dots) + ink * dots;
+    }
+    case FrameStyle.IMAGE:
+      return hasImage(frame) && frame.imageTone ? getLuminance(frame.imageTone) : base;
+    default:
+      return base;
+  }
+};
+
+/**
+ * Text color (near black or white) that reads best on the frame background.
+ */
+export const getContrastTextColor = (frame: FrameBackground) => {
+  const luminance = getFrameLuminance(frame);
+  return getContrastRatio(luminance, getLuminance(TEXT_LIGHT)) > getContrastRatio(luminance, getLuminance(TEXT_DARK))
+    ? TEXT_LIGHT
+    : TEXT_DARK;
+};
+
+/**
+ * Average color of an image, stored with uploaded frame images to pick the text color.
+ */
+export const getImageTone = async (src: string): Promise<string> => {
+  const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Unsupported image file"));
+    image.src = src;
+  });
+
+  const canvas = document.createElement("canvas");
+  canvas.width = 16;
+  canvas.height = 16;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return '#FFFFFF';
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  const data = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+  const sum = [0, 0, 0];
+  for (let i = 0; i < data.length; i += 4) {
+    sum[0] += data[i];
+    sum[1] += data[i + 1];
+    sum[2] += data[i + 2];
+  }
+  const pixels = data.length / 4;
+  return `#${sum.map(v => Math.round(v / pixels).toString(16).padStart(2, '0')).join('')}`;
+};
+
+// Length of a CSS linear gradient line across a box, for an angle in degrees
+export const getGradientLength = (width: number, height: number, angle: number) => {
+  const rad = angle * Math.PI / 180;
+  return Math.abs(width * Math.sin(rad)) + Math.abs(height * Math.cos(rad));
+};
+
+/**
+ * Paints the frame background over a whole canvas. Pass the loaded image for FrameStyle.IMAGE;
+ * without it the frame falls back to its base color.
+ */
+export const drawFrameBackground = (
+  ctx: CanvasRenderingContext2D,
+  frame: FrameBackground,
+  width: number,
+  height: number,
+  image: HTMLImageElement | null = null
+) => {
+  const shortSide = Math.min(width, height);
+  ctx.save();
+  ctx.fillStyle = frame.color;
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = frame.color2;
+
+  switch (frame.style) {
+    case FrameStyle.LINEAR: {
+      // Same gradient line as CSS linear-gradient(<angle>deg, ...)
+      const rad = frame.angle * Math.PI / 180;
+      const half = getGradientLength(width, height, frame.angle) / 2;
+      const dx = Math.sin(rad) * half;
+      const dy = -Math.cos(rad) * half;
+      const gradient = ctx.createLinearGradient(width / 2 - dx, height / 2 - dy, width / 2 + dx, height / 2 + dy);
+      gradient.addColorStop(0, frame.color);
+      gradient.addColorStop(1, frame.color2);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, width, height);
+      break;
+    }
+    case FrameStyle.RADIAL: {
+      // circle farthest-corner
+      const gradient = ctx.createRadialGradient(width / 2, height / 2, 0, width / 2, height / 2, Math.hypot(width, height) / 2);
+      gradient.addColorStop(0, frame.color);
+      gradient.addColorStop(1, frame.color2);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, width, height);
+      break;
+    }
+    case FrameStyle.CHECKER: {
+      const cell = shortSide * CHECKER_CELL;
+      for (let row = 0; row * cell < height; row++) {
+        for (let col = 0; col * cell < width; col++) {
+          if ((row + col) % 2 === 1) ctx.fillRect(col * cell, row * cell, cell, cell);
+        }
+      }
+      break;
+    }
+    case FrameStyle.POLKA: {
+      const tile = shortSide * POLKA_TILE;
+      ctx.beginPath();
+      for (let row = 0; row * tile < height; row++) {
+        for (let col = 0; col * tile < width; col++) {
+          const x = (col + 0.5) * tile;
+          const y = (row + 0.5) * tile;
+          ctx.moveTo(x + tile * POLKA_RADIUS, y);
+          ctx.arc(x, y, tile * POLKA_RADIUS, 0, Math.PI * 2);
+        }
+      }
+      ctx.fill();
+      break;
+    }
+    case FrameStyle.STRIPES: {
+      // Bands along the gradient line, starting at its beginning like repeating-linear-gradient
+      const stripe = shortSide * STRIPE_WIDTH;
+      const half = getGradientLength(width, height, frame.angle) / 2;
+      const reach = Math.hypot(width, height) / 2;
+      ctx.translate(width / 2, height / 2);
+      ctx.rotate((frame.angle - 90) * Math.PI / 180);
+      for (let x = -half + stripe; x < half; x += stripe * 2) {
+        ctx.fillRect(x, -reach, stripe, reach * 2);
+      }
+      break;
+    }
+    case FrameStyle.IMAGE: {
+      if (!image) break;
+      // object-fit: cover
+      const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+      const drawWidth = image.naturalWidth * scale;
+      const drawHeight = image.naturalHeight * scale;
+      ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+      break;
+    }
+  }
+  ctx.restore();
+};
+
+/**
+ * CSS background for an element showing the frame, matching drawFrameBackground. Pattern sizes
+ * are percentages of the element, so it needs the element's aspect ratio (width / height).
+ * The background covers the border box, so a transparent border shows it as a rim.
+ */
+export const getFrameBackgroundStyle = (frame: FrameBackground, aspectRatio: number): CSSProperties => {
+  const style: CSSProperties = { backgroundColor: frame.color, backgroundOrigin: 'border-box' };
+  // Shorter side over width and over height
+  const sideOfWidth = Math.min(1, 1 / aspectRatio);
+  const sideOfHeight = Math.min(1, aspectRatio);
+  const tileSize = (fraction: number) => `${fraction * sideOfWidth * 100}% ${fraction * sideOfHeight * 100}%`;
+
+  switch (frame.style) {
+    case FrameStyle.LINEAR:
+      return { ...style, backgroundImage: `linear-gradient(${frame.angle}deg, ${frame.color}, ${frame.color2})` };
+    case FrameStyle.RADIAL:
+      return { ...style, backgroundImage: `radial-gradient(circle farthest-corner at 50% 50%, ${frame.color}, ${frame.color2})` };
+    case FrameStyle.CHECKER:
+      return {
+        ...style,
+        backgroundImage: `conic-gradient(${frame.color2} 25%, ${frame.color} 0 50%, ${frame.color2} 0 75%, ${frame.color} 0)`,
+        backgroundSize: tileSize(CHECKER_CELL * 2),
+      };
+    case FrameStyle.POLKA: {
+      const edge = POLKA_RADIUS * 2 * 100;
+      return {
+        ...style,
+        backgroundImage: `radial-gradient(circle closest-side, ${frame.color2} ${edge - 1}%, transparent ${edge}%)`,
+        backgroundSize: tileSize(POLKA_TILE),
+      };
+    }
+    case FrameStyle.STRIPES: {
+      // Stop positions are percentages of the gradient line, measured here in widths
+      const stripe = (STRIPE_WIDTH * sideOfWidth) / getGradientLength(1, 1 / aspectRatio, frame.angle) * 100;
+      return {
+        ...style,
+        backgroundImage: `repeating-linear-gradient(${frame.angle}deg, ${frame.color} 0 ${stripe}%, ${frame.color2} ${stripe}% ${stripe * 2}%)`,
+      };
+    }
+    case FrameStyle.IMAGE:
+      if (!frame.image) return style;
+      return { ...style, backgroundImage: `url(${frame.image})`, backgroundSize: 'cover', backgroundPosition: 'center', backgroundRepeat: 'no-repeat' };
+    default:
+      return style;
+  }
+};
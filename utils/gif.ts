@@ -0,0 +1,294 @@
+// Animated GIF encoder: one global 256-color palette (median cut over samples of the frames),
+// Floyd-Steinberg dithering and LZW compression. Repeated frames are merged into one longer frame.
+
+import { AnimatedImageSource } from "../types";
+
+const PALETTE_SIZE = 256;
+// Pixels sampled for the palette, spread over the frames
+const PALETTE_SAMPLES = 60000;
+const PALETTE_SAMPLE_FRAMES = 8;
+// Browsers play shorter GIF delays at 1/10 s
+const MIN_DELAY_CS = 2;
+
+// --- Palette ---
+
+interface ColorBox {
+  colors: Uint8Array; // RGB triplets
+  range: number;
+  channel: number; // Widest channel
+}
+
+const toBox = (colors: Uint8Array): ColorBox => {
+  const min = [255, 255, 255];
+  const max = [0, 0, 0];
+  for (let i = 0; i < colors.length; i += 3) {
+    for (let c = 0; c < 3; c++) {
+      if (colors[i + c] < min[c]) min[c] = colors[i + c];
+      if (colors[i + c] > max[c]) max[c] = colors[i + c];
+    }
+  }
+  const ranges = max.map((value, c) => value - min[c]);
+  const channel = ranges.indexOf(Math.max(...ranges));
+  return { colors, range: ranges[channel], channel };
+};
+
+// Median cut: split the box with the widest channel at its median until there are enough boxes
+const buildPalette = (samples: Uint8Array): Uint8Array => {
+  let boxes = [toBox(samples)];
+  while (boxes.length < PALETTE_SIZE) {
+    const box = boxes.reduce((best, b) => (b.range > best.range && b.colors.length > 3 ? b : best), boxes[0]);
+    if (box.range === 0 || box.colors.length <= 3) break;
+
+    const count = box.colors.length / 3;
+    const order = Array.from({ length: count }, (_, i) => i).sort((a, b) => box.colors[a * 3 + box.channel] - box.colors[b * 3 + box.channel]);
+    const sorted = new Uint8Array(box.colors.length);
+    order.forEach((from, to) => sorted.set(box.colors.subarray(from * 3, from * 3 + 3), to * 3));
+
+    const half = Math.floor(count / 2) * 3;
+    boxes = boxes.filter(b => b !== box).concat([toBox(sorted.subarray(0, half)), toBox(sorted.subarray(half))]);
+  }
+
+  const palette = new Uint8Array(PALETTE_SIZE * 3);
+  boxes.forEach((box, i) => {
+    const sum = [0, 0, 0];
+    for (let j = 0; j < box.colors.length; j += 3) {
+      sum[0] += box.colors[j];
+      sum[1] += box.colors[j + 1];
+      sum[2] += box.colors[j + 2];
+    }
+    const count = Math.max(1, box.colors.length / 3);
+    palette.set(sum.map(v => Math.round(v / count)), i * 3);
+  });
+  return palette;
+};
+
+const samplePixels = (source: AnimatedImageSource) => {
+  const frames = Math.min(PALETTE_SAMPLE_FRAMES, source.frameCount);
+  const perFrame = Math.floor(PALETTE_SAMPLES / frames);
+  const samples = new Uint8Array(perFrame * frames * 3);
+  let offset = 0;
+  for (let f = 0; f < frames; f++) {
+    const canvas = source.renderFrame(Math.floor(f * source.frameCount / frames));
+    const data = canvas.getContext("2d")?.getImageData(0, 0, source.width, source.height).data;
+    if (!data) continue;
+    const pixels = data.length / 4;
+    for (let i = 0; i < perFrame; i++) {
+      const p = Math.floor(i * pixels / perFrame) * 4;
+      samples[offset++] = data[p];
+      samples[offset++] = data[p + 1];
+      samples[offset++] = data[p + 2];
+    }
+  }
+  return samples.subarray(0, offset);
+};
+
+// Nearest palette entry, cached per 5-bit color
+const createColorMatcher = (palette: Uint8Array) => {
+  const cache = new Int16Array(32768).fill(-1);
+  return (r: number, g: number, b: number) => {
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    if (cache[key] >= 0) return cache[key];
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < PALETTE_SIZE; i++) {
+      const dr = palette[i * 3] - r;
+      const dg = palette[i * 3 + 1] - g;
+      const db = palette[i * 3 + 2] - b;
+      const distance = dr * dr * 2 + dg * dg * 4 + db * db * 3;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+    cache[key] = best;
+    return best;
+  };
+};
+
+// Floyd-Steinberg: the rounding error of each pixel goes to its unvisited neighbours
+const ditherFrame = (data: Uint8ClampedArray, width: number, height: number, palette: Uint8Array, match: (r: number, g: number, b: number) => number) => {
+  const indices = new Uint8Array(width * height);
+  let current = new Float32Array((width + 2) * 3);
+  let next = new Float32Array((width + 2) * 3);
+  const clamp = (v: number) => (v < 0 ? 0 : v > 255 ? 255 : v);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4;
+      const e = (x + 1) * 3;
+      const r = clamp(data[p] + current[e]);
+      const g = clamp(data[p + 1] + current[e + 1]);
+      const b = clamp(data[p + 2] + current[e + 2]);
+      const index = match(r, g, b);
+      indices[y * width + x] = index;
+
+      const errors = [r - palette[index * 3], g - palette[index * 3 + 1], b - palette[index * 3 + 2]];
+      for (let c = 0; c < 3; c++) {
+        current[e + 3 + c] += errors[c] * 7 / 16;
+        next[e - 3 + c] += errors[c] * 3 / 16;
+        next[e + c] += errors[c] * 5 / 16;
+        next[e + 3 + c] += errors[c] / 16;
+      }
+    }
+    [current, next] = [next, current];
+    next.fill(0);
+  }
+  return indices;
+};
+
+// --- Encoding ---
+
+const createByteWriter = () => {
+  let buffer = new Uint8Array(1 << 20);
+  let length = 0;
+  const ensure = (extra: number) => {
+    if (length + extra <= buffer.length) return;
+    const grown = new Uint8Array(Math.max(buffer.length * 2, length + extra));
+    grown.set(buffer.subarray(0, length));
+    buffer = grown;
+  };
+  return {
+    byte: (value: number) => {
+      ensure(1);
+      buffer[length++] = value;
+    },
+    bytes: (values: ArrayLike<number>) => {
+      ensure(values.length);
+      buffer.set(values, length);
+      length += values.length;
+    },
+    short: (value: number) => {
+      ensure(2);
+      buffer[length++] = value & 255;
+      buffer[length++] = (value >> 8) & 255;
+    },
+    result: () => buffer.slice(0, length),
+  };
+};
+
+type ByteWriter = ReturnType<typeof createByteWriter>;
+
+// Variable-width LZW with 8-bit symbols, written as sub-blocks of up to 255 bytes
+const writeLzw = (out: ByteWriter, indices: Uint8Array) => {
+  const MIN_CODE_SIZE = 8;
+  const CLEAR = 1 << MIN_CODE_SIZE;
+  const END = CLEAR + 1;
+  out.byte(MIN_CODE_SIZE);
+
+  const block = new Uint8Array(255);
+  let blockLength = 0;
+  let bits = 0;
+  let bitCount = 0;
+  const emit = (code: number, size: number) => {
+    bits |= code << bitCount;
+    bitCount += size;
+    while (bitCount >= 8) {
+      block[blockLength++] = bits & 255;
+      bits >>= 8;
+      bitCount -= 8;
+      if (blockLength === 255) {
+        out.byte(255);
+        out.bytes(block);
+        blockLength = 0;
+      }
+    }
+  };
+
+  // Dictionary keyed by prefix code * 256 + symbol
+  let dictionary = new Map<number, number>();
+  let nextCode = END + 1;
+  let codeSize = MIN_CODE_SIZE + 1;
+  emit(CLEAR, codeSize);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const symbol = indices[i];
+    const key = prefix * 256 + symbol;
+    const code = dictionary.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix, codeSize);
+    if (nextCode < 4096) {
+      dictionary.set(key, nextCode++);
+      if (nextCode > 1 << codeSize && codeSize < 12) codeSize++;
+    } else {
+      emit(CLEAR, codeSize);
+      dictionary = new Map();
+      nextCode = END + 1;
+      codeSize = MIN_CODE_SIZE + 1;
+    }
+    prefix = symbol;
+  }
+
+  emit(prefix, codeSize);
+  emit(END, codeSize);
+  if (bitCount > 0) emit(0, 8 - bitCount);
+  if (blockLength > 0) {
+    out.byte(blockLength);
+    out.bytes(block.subarray(0, blockLength));
+  }
+  out.byte(0);
+};
+
+const sameIndices = (a: Uint8Array, b: Uint8Array) => {
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+  return true;
+};
+
+/**
+ * Encodes the frames as a looping GIF. Yields to the browser between frames and reports
+ * progress (0-1) if asked.
+ */
+export const encodeGif = async (source: AnimatedImageSource, onProgress?: (progress: number) => void): Promise<Blob> => {
+  const { width, height, frameCount, delay } = source;
+  const palette = buildPalette(samplePixels(source));
+  const match = createColorMatcher(palette);
+
+  const out = createByteWriter();
+  out.bytes([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]); // GIF89a
+  out.short(width);
+  out.short(height);
+  out.byte(0xf7); // Global color table of 256 entries
+  out.byte(0); // Background color
+  out.byte(0); // Pixel aspect ratio
+  out.bytes(palette);
+  // NETSCAPE2.0 extension: loop forever
+  out.bytes([0x21, 0xff, 0x0b, ...Array.from("NETSCAPE2.0", c => c.charCodeAt(0)), 0x03, 0x01, 0x00, 0x00, 0x00]);
+
+  const writeFrame = (indices: Uint8Array, delayCs: number) => {
+    out.bytes([0x21, 0xf9, 0x04, 0x00]); // Graphic control: no transparency, no disposal
+    out.short(Math.max(MIN_DELAY_CS, delayCs));
+    out.bytes([0x00, 0x00]);
+    out.byte(0x2c); // Image descriptor
+    out.short(0);
+    out.short(0);
+    out.short(width);
+    out.short(height);
+    out.byte(0); // Uses the global color table
+    writeLzw(out, indices);
+  };
+
+  // Delays in 1/100 s, rounded on the running total so the loop keeps its length
+  let pending: { indices: Uint8Array; start: number } | null = null;
+  for (let i = 0; i < frameCount; i++) {
+    const data = source.renderFrame(i).getContext("2d")?.getImageData(0, 0, width, height).data;
+    if (!data) throw new Error("Canvas is not available");
+    const indices = ditherFrame(data, width, height, palette, match);
+    const start = Math.round(i * delay / 10);
+
+    if (!pending || !sameIndices(pending.indices, indices)) {
+      if (pending) writeFrame(pending.indices, start - pending.start);
+      pending = { indices, start };
+    }
+
+    onProgress?.((i + 1) / frameCount);
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  if (pending) writeFrame(pending.indices, Math.round(frameCount * delay / 10) - pending.start);
+
+  out.byte(0x3b); // Trailer
+  return new Blob([out.result()], { type: 'image/gif' });
+};
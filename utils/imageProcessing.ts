@@ -1,185 +1,51 @@
-import { GridType, FrameColor, FilterType, MaskType, FaceData } from "../types";
-import { GRID_CONFIGS } from "../constants";
-
-// Helper to draw a single heart on the canvas
-const drawHeart = (ctx: CanvasRenderingContext2D, x: number, y: number, size: number, color: string, rotation: number, opacity: number = 0.9) => {
-  ctx.save();
-  ctx.translate(x, y);
-  ctx.rotate(rotation * Math.PI / 180);
-  ctx.globalAlpha = opacity;
-  ctx.fillStyle = color;
-  // Reduce shadow for cleaner look or match the aesthetic
-  ctx.shadowColor = 'rgba(255, 105, 180, 0.5)';
-  ctx.shadowBlur = 10;
-  
-  // Draw Heart Path
-  ctx.beginPath();
-  const topCurveHeight = size * 0.3;
-  ctx.moveTo(0, topCurveHeight);
-  // Top left curve
-  ctx.bezierCurveTo(
-    0, 0, 
-    -size / 2, 0, 
-    -size / 2, topCurveHeight
-  );
-  // Bottom left curve
-  ctx.bezierCurveTo(
-    -size / 2, (size + topCurveHeight) / 2, 
-    0, (size + topCurveHeight) / 2, 
-    0, size
-  );
-  // Bottom right curve
-  ctx.bezierCurveTo(
-    0, (size + topCurveHeight) / 2, 
-    size / 2, (size + topCurveHeight) / 2, 
-    size / 2, topCurveHeight
-  );
-  // Top right curve
-  ctx.bezierCurveTo(
-    size / 2, 0, 
-    0, 0, 
-    0, topCurveHeight
-  );
-  ctx.fill();
-  ctx.restore();
-};
-
-const drawStar = (ctx: CanvasRenderingContext2D, x: number, y: number, size: number, color: string, rotation: number, opacity: number = 0.9) => {
-  ctx.save();
-  ctx.translate(x, y);
-  ctx.rotate(rotation * Math.PI / 180);
-  ctx.globalAlpha = opacity;
-  ctx.fillStyle = color;
-  ctx.shadowColor = 'rgba(253, 224, 71, 0.6)'; // Yellow shadow
-  ctx.shadowBlur = 12;
-
-  const spikes = 5;
-  const outerRadius = size / 2;
-  const innerRadius = size / 4;
-  
-  ctx.beginPath();
-  let rot = Math.PI / 2 * 3;
-  let cx = 0; // relative to translate
-  let cy = 0;
-  let step = Math.PI / spikes;
-
-  ctx.moveTo(cx, cy - outerRadius);
-  for (let i = 0; i < spikes; i++) {
-    let sx = cx + Math.cos(rot) * outerRadius;
-    let sy = cy + Math.sin(rot) * outerRadius;
-    ctx.lineTo(sx, sy);
-    rot += step;
-
-    sx = cx + Math.cos(rot) * innerRadius;
-    sy = cy + Math.sin(rot) * innerRadius;
-    ctx.lineTo(sx, sy);
-    rot += step;
-  }
-  ctx.lineTo(cx, cy - outerRadius);
-  ctx.closePath();
-  ctx.fill();
-  ctx.restore();
-}
-
-const drawMask = (
-    ctx: CanvasRenderingContext2D, 
-    width: number, 
-    height: number, 
-    type: MaskType,
-    faceData?: FaceData
-) => {
-  // If face detected, use it. Otherwise default to center (approximate position)
-  
-  let centerX = width / 2;
-  let centerY = height * 0.3; // Default forehead
-  let baseScale = 1.0;
-
-  if (faceData) {
-    // FaceData is normalized 0-1.
-    // video frame is flipped in context (mirror effect), but the source faceData is from raw video.
-    centerX = faceData.x * width;
-    
-    // Y is normal
-    // App.tsx uses: normalizedY - (visibleH * 0.6)
-    // Here we duplicate that logic, using faceData.height (which is normalized height)
-    centerY = (faceData.y - (faceData.height * 0.6)) * height;
-    
-    // Scale hearts based on face width relative to frame width
-    // Reference face width might be ~0.3 of screen.
-    baseScale = (faceData.width / 0.35); 
-  }
-
-  // Radius of the crown arc - Smaller now
-  const radiusX = (width * 0.20) * baseScale; 
-  const radiusY = (height * 0.10) * baseScale;
-  
-  if (type === MaskType.HEARTS) {
-    // Mixed colors: Light Pink (#F9A8D4) and Dark Pink (#DB2777)
-    const colors = ['#F9A8D4', '#DB2777', '#F472B6', '#BE185D', '#FBCFE8'];
-
-    const items = [
-        { angle: -40, size: 30, rotate: -30, color: colors[0] },
-        { angle: -20, size: 38, rotate: -15, color: colors[1] },
-        { angle: 0, size: 45, rotate: 0, color: colors[2] },
-        { angle: 20, size: 38, rotate: 15, color: colors[3] },
-        { angle: 40, size: 30, rotate: 30, color: colors[4] },
-    ];
-
-    items.forEach(item => {
-        const rad = item.angle * Math.PI / 180;
-        const x = centerX + (radiusX * Math.sin(rad));
-        const y = centerY - (radiusY * Math.cos(rad));
-        
-        // Scale size relative to canvas width (standard reference 640px)
-        const scaleFactor = (width / 640) * baseScale;
-        
-        drawHeart(ctx, x, y, item.size * scaleFactor, item.color, item.rotate, 0.95);
-    });
-  } 
-  else if (type === MaskType.STARS) {
-    const colors = ['#FDE047', '#FEF08A', '#FCD34D', '#BAE6FD', '#FDE047']; // Yellows and light blue
-
-    const items = [
-        { angle: -45, size: 35, rotate: -20, color: colors[0] },
-        { angle: -22, size: 28, rotate: -10, color: colors[1] },
-        { angle: 0, size: 42, rotate: 0, color: colors[2] },
-        { angle: 22, size: 28, rotate: 10, color: colors[3] },
-        { angle: 45, size: 35, rotate: 20, color: colors[4] },
-    ];
-
-    items.forEach(item => {
-        const rad = item.angle * Math.PI / 180;
-        const x = centerX + (radiusX * Math.sin(rad));
-        const y = centerY - (radiusY * Math.cos(rad));
-        const scaleFactor = (width / 640) * baseScale;
-
-        drawStar(ctx, x, y, item.size * scaleFactor, item.color, item.rotate, 0.95);
-    });
-  }
-};
+import { FrameBackground, FrameStyle, FilterType, MaskType, FaceData, CustomMaskConfig, CustomFilterSettings, FilmEffects, ChromaKeyConfig, CustomBackground, FooterConfig, LayoutRect, LayoutTemplate } from "../types";
+import { cropFace, drawMask } from "./masks";
+import { applyFilter, getFilterSteps } from "./filters";
+import { Lut3D } from "./lut";
+import { applyChromaKey, getBackgroundSource } from "./chromaKey";
+import { drawFrameBackground } from "./frames";
+import { LAYOUT_FONTS, fillLayoutText, getCanvasFont, getFooterLayout, getFooterTextColor } from "./layouts";
 
 export interface CaptureOptions {
   filter: FilterType;
+  filterIntensity?: number; // 0-1, defaults to the full filter
+  customFilter?: CustomFilterSettings; // Builder settings used when filter is FilterType.CUSTOM
+  lut?: Lut3D | null; // Grade used when filter is FilterType.LUT
+  chromaKey?: ChromaKeyConfig; // Background replacement, applied when enabled
+  customBackgrounds?: CustomBackground[]; // Uploaded scenes chromaKey.backgroundId may refer to
+  filmEffects?: FilmEffects; // Texture layer drawn over the photo and mask
   mask?: MaskType;
-  faceData?: FaceData | null;
+  customMask?: CustomMaskConfig | null; // Sticker used when mask is MaskType.CUSTOM
+  faces?: FaceData[];
   targetWidth?: number;
+  aspectRatio?: number; // width / height of the output, defaults to 4:3
+  time?: number; // Mask animation clock in seconds, defaults to now so stills match the preview
   mimeType?: string;
   quality?: number;
 }
 
-/**
- * Captures the current frame from the video element applying the selected filter and mask.
- * Clips the image to a 4:3 aspect ratio.
- */
-export const captureFrame = (
-  video: HTMLVideoElement,
+// Shared render pipeline: crop, filter, mirror and mask any camera image source.
+// Face coordinates are normalized to the source frame, so the source must have the video's field of view.
+const renderFrame = (
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
   options: CaptureOptions
 ): string => {
   const { 
     filter, 
+    filterIntensity = 1,
+    customFilter,
+    lut = null,
+    chromaKey,
+    customBackgrounds,
+    filmEffects,
     mask = MaskType.NONE, 
-    faceData, 
+    customMask,
+    faces = [], 
     targetWidth, 
+    aspectRatio = 4/3,
+    time = performance.now() / 1000,
     mimeType = "image/png", 
     quality = 0.92 
   } = options;
@@ -188,25 +54,24 @@ export const captureFrame = (
   const ctx = canvas.getContext("2d");
   if (!ctx) return "";
 
-  // Desired Aspect Ratio 4:3
-  const targetRatio = 4/3;
-  const videoRatio = video.videoWidth / video.videoHeight;
+  const targetRatio = aspectRatio;
+  const videoRatio = sourceWidth / sourceHeight;
   
   // Calculate source crop dimensions
   let sW, sH, sX, sY;
 
   if (videoRatio > targetRatio) {
     // Video is wider (e.g. 16:9). Crop width.
-    sH = video.videoHeight;
+    sH = sourceHeight;
     sW = sH * targetRatio;
-    sX = (video.videoWidth - sW) / 2;
+    sX = (sourceWidth - sW) / 2;
     sY = 0;
   } else {
     // Video is taller or equal. Crop height.
-    sW = video.videoWidth;
+    sW = sourceWidth;
     sH = sW / targetRatio;
     sX = 0;
-    sY = (video.videoHeight - sH) / 2;
+    sY = (sourceHeight - sH) / 2;
   }
 
   // Determine output dimensions
@@ -222,227 +87,503 @@ export const captureFrame = (
   canvas.width = Math.floor(outputWidth);
   canvas.height = Math.floor(outputHeight);
 
-  // Apply filter contextually if supported
-  if (filter !== FilterType.NORMAL) {
-    ctx.filter = filter;
-  }
-
   // Flip horizontally to match mirror view
   ctx.translate(canvas.width, 0);
   ctx.scale(-1, 1);
 
   // Draw clipped version
-  ctx.drawImage(video, sX, sY, sW, sH, 0, 0, canvas.width, canvas.height);
+  ctx.drawImage(source, sX, sY, sW, sH, 0, 0, canvas.width, canvas.height);
+
+  // Swap the green screen before grading, so the scene gets the same look as the guests
+  const backgroundSrc = chromaKey?.enabled ? getBackgroundSource(chromaKey.backgroundId, customBackgrounds) : undefined;
+  if (chromaKey && backgroundSrc) {
+    applyChromaKey(canvas, chromaKey, backgroundSrc);
+  }
+
+  // Filter the photo only, the mask sits on top unfiltered like in the preview
+  if (filter !== FilterType.NORMAL) {
+    applyFilter(canvas, getFilterSteps(filter, customFilter), filterIntensity, filter === FilterType.LUT ? lut : null);
+  }
   
   // Draw Mask if enabled
   if (mask !== MaskType.NONE) {
-    // We need to adjust faceData for the crop if it exists
-    
-    let adjustedFaceData = undefined;
-    if (faceData) {
-        // Convert normalized face coords to source pixels
-        const fx_px = faceData.x * video.videoWidth;
-        const fy_px = faceData.y * video.videoHeight;
-        const fw_px = faceData.width * video.videoWidth;
-        const fh_px = faceData.height * video.videoHeight;
-
-        // Check if face is inside the crop
-        // The crop rect is (sX, sY, sW, sH)
-        
-        // Relative to Crop
-        const fx_crop = fx_px - sX;
-        const fy_crop = fy_px - sY;
-        
-        // Normalize back to Output Canvas size
-        // Note: sW/sH is the crop size in source pixels.
-        // We are drawing into `canvas.width` which is the output size.
-        // The drawing logic uses normalized coordinates (0-1) so we just need to normalize relative to the crop area.
-        adjustedFaceData = {
-            x: fx_crop / sW,
-            y: fy_crop / sH,
-            width: fw_px / sW,
-            height: fh_px / sH,
-            videoWidth: sW, 
-            videoHeight: sH
-        };
-    }
+    // Re-normalize each face to the crop rect (sX, sY, sW, sH)
+    const crop = { x: sX / sourceWidth, y: sY / sourceHeight, width: sW / sourceWidth, height: sH / sourceHeight };
+    const adjustedFaces = faces.map(face => cropFace(face, crop));
 
-    drawMask(ctx, canvas.width, canvas.height, mask, adjustedFaceData);
+    drawMask(ctx, canvas.width, canvas.height, mask, adjustedFaces, time, customMask);
+  }
+
+  if (hasFilmEffects(filmEffects)) {
+    drawFilmEffects(ctx, canvas.width, canvas.height, filmEffects, time);
   }
 
   return canvas.toDataURL(mimeType, quality);
 };
 
+/**
+ * Captures the current frame from the video element applying the selected filter and mask.
+ * Clips the image to the requested aspect ratio (4:3 by default).
+ */
+export const captureFrame = (
+  video: HTMLVideoElement,
+  options: CaptureOptions
+): string => {
+  return renderFrame(video, video.videoWidth, video.videoHeight, options);
+};
+
+// Give up on the ImageCapture path if the camera takes too long, so the shutter never hangs
+const STILL_CAPTURE_TIMEOUT = 3000; // ms
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => {
+  return new Promise<T>((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error("Timeout")), ms);
+    promise.then(
+      value => { clearTimeout(timeout); resolve(value); },
+      err => { clearTimeout(timeout); reject(err); }
+    );
+  });
+};
+
+/**
+ * Captures a full-resolution still through the ImageCapture API when available.
+ * Tries takePhoto() (sensor resolution), then grabFrame() (stream resolution) and finally
+ * falls back to captureFrame's drawImage path. The filter, mirror and mask pipeline is identical.
+ */
+export const captureStill = async (
+  video: HTMLVideoElement,
+  track: MediaStreamTrack | null | undefined,
+  options: CaptureOptions
+): Promise<string> => {
+  const ImageCaptureClass = (window as any).ImageCapture;
+
+  if (ImageCaptureClass && track && track.readyState === 'live') {
+    const imageCapture = new ImageCaptureClass(track);
+    const videoRatio = video.videoWidth / video.videoHeight;
+
+    // 1. Sensor-resolution photo
+    try {
+      const blob: Blob = await withTimeout(imageCapture.takePhoto(), STILL_CAPTURE_TIMEOUT);
+      const bitmap = await createImageBitmap(blob);
+      try {
+        // Some cameras shoot stills with a different sensor crop than the stream.
+        // Face coordinates would no longer line up, so only use photos with the same framing.
+        if (Math.abs(bitmap.width / bitmap.height - videoRatio) < 0.01) {
+          return renderFrame(bitmap, bitmap.width, bitmap.height, options);
+        }
+      } finally {
+        bitmap.close();
+      }
+    } catch (e) {
+      console.warn("ImageCapture.takePhoto failed, trying grabFrame...", e);
+    }
+
+    // 2. Current stream frame, still avoids waiting on the <video> element
+    try {
+      const bitmap: ImageBitmap = await withTimeout(imageCapture.grabFrame(), STILL_CAPTURE_TIMEOUT);
+      try {
+        return renderFrame(bitmap, bitmap.width, bitmap.height, options);
+      } finally {
+        bitmap.close();
+      }
+    } catch (e) {
+      console.warn("ImageCapture.grabFrame failed, falling back to video frame", e);
+    }
+  }
+
+  // 3. Fallback: draw the current <video> frame
+  return captureFrame(video, options);
+};
+
 // Removed captureLowResFrame as it is now superseded by captureFrame with options
 
+// --- Film effects ---
+// Texture layer drawn on top of the finished frame. Everything is plain source-over, so the
+// preview can draw the same layer on a transparent canvas above the video and get the same look.
+
+// Effects are sized relative to a 640px wide 4:3 frame so they look the same at any resolution
+const FILM_REFERENCE_WIDTH = 640;
+// Grain and dust change at film frame rate rather than on every render
+const FILM_FPS = 12;
+
+// Small seeded PRNG (mulberry32), so preview and capture agree on the dust for a given moment
+const createRandom = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+let grainTile: HTMLCanvasElement | null = null;
+
+// Black and white specks at low opacity, tiled over the frame
+const getGrainTile = () => {
+  if (grainTile) return grainTile;
+  const size = 128;
+  const tile = document.createElement("canvas");
+  tile.width = size;
+  tile.height = size;
+  const ctx = tile.getContext("2d");
+  if (!ctx) return null;
+
+  const image = ctx.createImageData(size, size);
+  const random = createRandom(1);
+  for (let i = 0; i < image.data.length; i += 4) {
+    const value = random() < 0.5 ? 0 : 255;
+    image.data[i] = value;
+    image.data[i + 1] = value;
+    image.data[i + 2] = value;
+    image.data[i + 3] = random() * 40;
+  }
+  ctx.putImageData(image, 0, 0);
+  grainTile = tile;
+  return tile;
+};
+
+const drawGrain = (ctx: CanvasRenderingContext2D, width: number, height: number, unit: number, random: () => number) => {
+  const tile = getGrainTile();
+  if (!tile) return;
+  const size = tile.width * unit;
+  // A new offset every film frame keeps the grain moving
+  const offsetX = -random() * size;
+  const offsetY = -random() * size;
+  for (let y = offsetY; y < height; y += size) {
+    for (let x = offsetX; x < width; x += size) {
+      ctx.drawImage(tile, x, y, size, size);
+    }
+  }
+};
+
+const drawVignette = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  const cx = width / 2;
+  const cy = height / 2;
+  const gradient = ctx.createRadialGradient(cx, cy, Math.min(width, height) * 0.35, cx, cy, Math.hypot(width, height) / 2);
+  gradient.addColorStop(0, "rgba(0, 0, 0, 0)");
+  gradient.addColorStop(1, "rgba(0, 0, 0, 0.55)");
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+};
+
+// Warm glows bleeding in from the edges, drifting slowly over time
+const drawLightLeak = (ctx: CanvasRenderingContext2D, width: number, height: number, time: number) => {
+  const drift = Math.sin(time * 0.4) * 0.08;
+  const size = Math.max(width, height);
+  const leaks = [
+    { x: 0, y: 0.2 + drift, radius: 0.6, color: "255, 120, 40" },
+    { x: 1, y: 0.85 - drift, radius: 0.45, color: "255, 70, 90" },
+  ];
+
+  leaks.forEach(leak => {
+    const x = leak.x * width;
+    const y = leak.y * height;
+    const gradient = ctx.createRadialGradient(x, y, 0, x, y, leak.radius * size);
+    gradient.addColorStop(0, `rgba(${leak.color}, 0.45)`);
+    gradient.addColorStop(0.5, `rgba(${leak.color}, 0.15)`);
+    gradient.addColorStop(1, `rgba(${leak.color}, 0)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+  });
+};
+
+const drawDust = (ctx: CanvasRenderingContext2D, width: number, height: number, unit: number, random: () => number) => {
+  // Specks
+  for (let i = 0; i < 14; i++) {
+    ctx.fillStyle = random() < 0.6 ? `rgba(255, 255, 255, ${0.4 + random() * 0.4})` : `rgba(20, 20, 20, ${0.4 + random() * 0.4})`;
+    ctx.beginPath();
+    ctx.arc(random() * width, random() * height, (0.5 + random() * 2) * unit, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  // Hairs
+  ctx.lineWidth = 0.8 * unit;
+  for (let i = 0; i < 2; i++) {
+    const x = random() * width;
+    const y = random() * height;
+    const length = (10 + random() * 25) * unit;
+    ctx.strokeStyle = `rgba(30, 30, 30, ${0.3 + random() * 0.3})`;
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.quadraticCurveTo(x + (random() - 0.5) * length, y + length / 2, x + (random() - 0.5) * length, y + length);
+    ctx.stroke();
+  }
+
+  // An occasional vertical scratch running the height of the frame
+  if (random() < 0.4) {
+    const x = random() * width;
+    ctx.strokeStyle = "rgba(255, 255, 255, 0.25)";
+    ctx.lineWidth = 0.7 * unit;
+    ctx.beginPath();
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x + (random() - 0.5) * 6 * unit, height);
+    ctx.stroke();
+  }
+};
+
+// Orange date imprint in the corner, like a point-and-shoot: '26 10 19
+const drawDateStamp = (ctx: CanvasRenderingContext2D, width: number, height: number, unit: number, date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const text = `'${pad(date.getFullYear() % 100)} ${pad(date.getMonth() + 1)} ${pad(date.getDate())}`;
+
+  ctx.font = `bold ${Math.round(22 * unit)}px "Courier New", monospace`;
+  ctx.textAlign = "right";
+  ctx.textBaseline = "bottom";
+  ctx.fillStyle = "#FF9A3C";
+  ctx.shadowColor = "rgba(255, 80, 0, 0.8)";
+  ctx.shadowBlur = 6 * unit;
+  ctx.fillText(text, width - 24 * unit, height - 18 * unit);
+  ctx.shadowBlur = 0;
+};
+
+export const hasFilmEffects = (effects?: FilmEffects | null): effects is FilmEffects =>
+  !!effects && Object.values(effects).some(Boolean);
+
 /**
- * Generates the final composite image (strip or grid).
+ * Draws the enabled film effects over the whole canvas (ignores the current transform).
+ * time drives grain, dust and light-leak movement; the date stamp shows the given date.
+ */
+export const drawFilmEffects = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  effects: FilmEffects,
+  time: number, // seconds
+  date: Date = new Date()
+) => {
+  const unit = Math.min(width, height * 4/3) / FILM_REFERENCE_WIDTH;
+  const random = createRandom(Math.floor(time * FILM_FPS) + 1);
+
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalAlpha = 1;
+  ctx.globalCompositeOperation = "source-over";
+
+  if (effects.lightLeak) drawLightLeak(ctx, width, height, time);
+  if (effects.vignette) drawVignette(ctx, width, height);
+  if (effects.grain) drawGrain(ctx, width, height, unit, random);
+  if (effects.dust) drawDust(ctx, width, height, unit, random);
+  if (effects.dateStamp) drawDateStamp(ctx, width, height, unit, date);
+
+  ctx.restore();
+};
+
+// Resolves to null when the image fails, so one broken asset doesn't block the composite
+export const loadImage = (src: string) => new Promise<HTMLImageElement | null>((resolve) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => resolve(null);
+  img.src = src;
+});
+
+// Runs draw with the context centred on a template box (rotated with it), given its pixel size.
+// Unrotated boxes are snapped to whole pixels to avoid sub-pixel gaps between photos and frame.
+const withLayoutRect = (
+  ctx: CanvasRenderingContext2D,
+  rect: LayoutRect,
+  scale: number,
+  draw: (x: number, y: number, width: number, height: number) => void
+) => {
+  let left = rect.x * scale;
+  let top = rect.y * scale;
+  let right = (rect.x + rect.width) * scale;
+  let bottom = (rect.y + rect.height) * scale;
+  if (!rect.rotation) {
+    left = Math.round(left);
+    top = Math.round(top);
+    right = Math.round(right);
+    bottom = Math.round(bottom);
+  }
+  const width = right - left;
+  const height = bottom - top;
+
+  ctx.save();
+  ctx.translate(left + width / 2, top + height / 2);
+  if (rect.rotation) ctx.rotate(rect.rotation * Math.PI / 180);
+  draw(-width / 2, -height / 2, width, height);
+  ctx.restore();
+};
+
+/**
+ * Generates the final composite image from a layout template (see getLayoutTemplate).
+ * The template is scaled so the largest photo slot keeps the resolution of the photos.
  */
 export const generateComposite = async (
   images: string[],
-  gridType: GridType,
-  frameColor: FrameColor,
-  qrCodeUrl?: string | null, // Added QR code support
-  title: string = "let's take a pic"
+  template: LayoutTemplate,
+  frame: FrameBackground,
+  footer: FooterConfig,
+  qrCodeUrl?: string | null // Added QR code support
 ): Promise<string> => {
   const canvas = document.createElement("canvas");
   const ctx = canvas.getContext("2d");
   if (!ctx) return "";
 
-  
-  // Assuming all captured images are same size. Load first to get dimensions.
-  const loadedImages = await Promise.all(
-    images.map(src => {
-      return new Promise<HTMLImageElement>((resolve) => {
-        const img = new Image();
-        img.onload = () => resolve(img);
-        img.src = src;
-      });
-    })
-  );
-
-  if (loadedImages.length === 0) return "";
-
-  const sourceW = loadedImages[0].width;
-  const sourceH = loadedImages[0].height;
+  const loadedImages = await Promise.all(images.map(loadImage));
+  const firstImage = loadedImages.find((img): img is HTMLImageElement => img !== null);
+  if (!firstImage || template.photos.length === 0) return "";
+
+  // Crop of an image that fills a slot (object-fit: cover). Crops are computed per image:
+  // video clips mix 480px frames with full-resolution freeze frames.
+  const getCrop = (w: number, h: number, slotRatio: number) => {
+    let sX, sY, sW, sH;
+    if (w / h > slotRatio) {
+        sH = h;
+        sW = h * slotRatio;
+        sX = (w - sW) / 2;
+        sY = 0;
+    } else {
+        sW = w;
+        sH = w / slotRatio;
+        sX = 0;
+        sY = (h - sH) / 2;
+    }
 
-  // Dynamic Spacing Logic
-  // For high-res (e.g. 1000px wide), we want ~70px padding. Ratio: 0.07
-  // For low-res (e.g. 320px wide), we want ~20px padding. Ratio: ~0.06
-  const scaleFactor = sourceW < 500 ? 0.5 : 1.0;
-  
-  const padding = Math.round(70 * scaleFactor); 
-  const gap = Math.round(70 * scaleFactor); 
-  const bottomLabelHeight = Math.round(160 * scaleFactor); 
-
-  // Determine Cell Size and Cropping based on Grid Type
-  let cellW = sourceW;
-  let cellH = sourceH;
-  let sX = 0;
-  let sY = 0;
-  let sW = sourceW;
-  let sH = sourceH;
-
-  // For Grid 2x2, we use slight landscape (4:3 ratio) - though images are already 4:3 from capture
-  if (gridType === GridType.GRID_2X2) {
-      // If source matches 4:3 (which it should), these are pass-through
-      const targetRatio = 4/3;
-      
-      if (sourceW / sourceH > targetRatio) {
-          sH = sourceH;
-          sW = sourceH * targetRatio;
-          sX = (sourceW - sW) / 2;
-          sY = 0;
-      } else {
-          sW = sourceW;
-          sH = sourceW / targetRatio;
-          sX = 0;
-          sY = (sourceH - sH) / 2;
-      }
-      
-      // Floor values to avoid sub-pixel rendering gaps
-      sW = Math.floor(sW);
-      sH = Math.floor(sH);
-      sX = Math.floor(sX);
-      sY = Math.floor(sY);
-      
-      cellW = sW;
-      cellH = sH;
-  }
+    // Floor values to avoid sub-pixel rendering gaps
+    return { sX: Math.floor(sX), sY: Math.floor(sY), sW: Math.floor(sW), sH: Math.floor(sH) };
+  };
 
-  let canvasWidth = 0;
-  let canvasHeight = 0;
-
-  // Calculate composite dimensions
-  switch (gridType) {
-    case GridType.SINGLE:
-      canvasWidth = sourceW + (padding * 2);
-      canvasHeight = sourceH + (padding * 2) + bottomLabelHeight;
-      break;
-    case GridType.STRIP_3:
-    case GridType.STRIP_4:
-      canvasWidth = sourceW + (padding * 2);
-      canvasHeight = (sourceH * loadedImages.length) + (gap * (loadedImages.length - 1)) + (padding * 2) + bottomLabelHeight;
-      break;
-    case GridType.GRID_2X2:
-      canvasWidth = (cellW * 2) + gap + (padding * 2);
-      canvasHeight = (cellH * 2) + gap + (padding * 2) + bottomLabelHeight;
-      break;
-  }
+  // Scale follows the first image in the largest slot
+  const largest = template.photos.reduce((a, b) => (b.width * b.height > a.width * a.height ? b : a));
+  const { sW: largestW } = getCrop(firstImage.width, firstImage.height, largest.width / largest.height);
+  const scale = largestW / largest.width;
 
   // Setup Canvas with integer dimensions
-  canvas.width = Math.ceil(canvasWidth);
-  canvas.height = Math.ceil(canvasHeight);
+  canvas.width = Math.ceil(template.width * scale);
+  canvas.height = Math.ceil(template.height * scale);
 
   // Draw Background
-  ctx.fillStyle = frameColor;
-  ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-  // Draw Images
-  let currentX = padding;
-  let currentY = padding;
-
-  loadedImages.forEach((img, index) => {
-    if (gridType === GridType.GRID_2X2) {
-      const row = Math.floor(index / 2);
-      const col = index % 2;
-      currentX = padding + (col * (cellW + gap));
-      currentY = padding + (row * (cellH + gap));
-      
-      // Draw with crop
-      ctx.drawImage(img, sX, sY, sW, sH, currentX, currentY, cellW, cellH);
+  const frameImage = frame.style === FrameStyle.IMAGE && frame.image ? await loadImage(frame.image) : null;
+  drawFrameBackground(ctx, frame, canvas.width, canvas.height, frameImage);
 
-    } else {
-       // Strips or Single
-       currentX = padding;
-       currentY = padding + (index * (sourceH + gap));
-       ctx.drawImage(img, currentX, currentY, sourceW, sourceH);
-    }
+  const decorationImages = await Promise.all(
+    template.decorations.map(d => (d.image ? loadImage(d.image) : Promise.resolve(null)))
+  );
+  const drawDecorations = (above: boolean) => {
+    template.decorations.forEach((decoration, index) => {
+      if (!!decoration.above !== above) return;
+      withLayoutRect(ctx, decoration, scale, (x, y, width, height) => {
+        if (decoration.fill) {
+          ctx.fillStyle = decoration.fill;
+          ctx.beginPath();
+          ctx.roundRect(x, y, width, height, (decoration.radius ?? 0) * scale);
+          ctx.fill();
+        }
+        const img = decorationImages[index];
+        if (img) ctx.drawImage(img, x, y, width, height);
+      });
+    });
+  };
+
+  drawDecorations(false);
+
+  // Draw Images, in capture order
+  template.photos.forEach((slot, index) => {
+    const img = loadedImages[index];
+    if (!img) return;
+    const { sX, sY, sW, sH } = getCrop(img.width, img.height, slot.width / slot.height);
+    withLayoutRect(ctx, slot, scale, (x, y, width, height) => {
+      ctx.drawImage(img, sX, sY, sW, sH, x, y, width, height);
+    });
   });
 
-  // Draw Footer Text
-  ctx.fillStyle = (frameColor === FrameColor.BLACK) ? '#FFFFFF' : '#1A1A1A';
-  ctx.textAlign = 'center';
-  ctx.textBaseline = 'middle';
-  
-  // Calculate center of the footer text area
-  const footerCenterY = canvas.height - (90 * scaleFactor);
+  drawDecorations(true);
+
+  const textColor = getFooterTextColor(footer, frame);
+  const date = new Date();
+  const footerLayout = template.footer ? getFooterLayout(template.footer, footer, date) : null;
 
-  // Title
-  const titleSize = Math.round(48 * scaleFactor);
-  ctx.font = `italic 700 ${titleSize}px "Playfair Display", serif`;
-  // Date
-  const dateSize = Math.round(24 * scaleFactor);
-  const dateFont = `500 ${dateSize}px "Outfit", sans-serif`;
+  // Web fonts load on first use, make sure they are ready before drawing text
+  const fonts = [
+    ...template.texts.map(slot => getCanvasFont(LAYOUT_FONTS[slot.font], slot.size * scale)),
+    ...(footerLayout?.lines ?? []).map(line => getCanvasFont(line.font, line.size * scale)),
+  ];
+  await Promise.all(fonts.map(font => document.fonts.load(font).catch(() => undefined)));
 
-  // Position title and date relative to the visual center
-  const titleY = footerCenterY - (24 * scaleFactor);
-  const dateY = footerCenterY + (28 * scaleFactor);
+  ctx.textBaseline = 'middle';
 
-  ctx.fillText(title, canvas.width / 2, titleY);
+  template.texts.forEach(slot => {
+    withLayoutRect(ctx, slot, scale, (x, y, width) => {
+      const align = slot.align ?? 'center';
+      ctx.fillStyle = slot.color ?? textColor;
+      ctx.font = getCanvasFont(LAYOUT_FONTS[slot.font], slot.size * scale);
+      ctx.textAlign = align;
+      const textX = align === 'left' ? x : align === 'right' ? x + width : 0;
+      ctx.fillText(fillLayoutText(slot.text, footer, date), textX, 0, width);
+    });
+  });
 
-  ctx.font = dateFont;
-  ctx.globalAlpha = 0.7;
-  const dateStr = new Date().toLocaleDateString();
-  ctx.fillText(dateStr, canvas.width / 2, dateY);
+  if (!footerLayout) return canvas.toDataURL("image/png");
 
-  // Draw QR Code if provided
+  // Draw Footer Text
+  ctx.fillStyle = textColor;
+  ctx.textAlign = 'center';
+  footerLayout.lines.forEach(line => {
+    ctx.font = getCanvasFont(line.font, Math.round(line.size * scale));
+    ctx.globalAlpha = line.opacity;
+    ctx.fillText(line.text, footerLayout.centerX * scale, line.y * scale, footerLayout.textWidth * scale);
+  });
+  ctx.globalAlpha = 1.0;
+
+  // Logo at the left end of the footer
+  if (footerLayout.logo && footer.logo) {
+    const logoImg = await loadImage(footer.logo.image);
+    if (logoImg) {
+      const { x, y, width, height } = footerLayout.logo;
+      ctx.drawImage(logoImg, x * scale, y * scale, width * scale, height * scale);
+    }
+  }
+
+  // Draw QR Code if provided, at the right end of the footer
   if (qrCodeUrl) {
-    const qrImg = await new Promise<HTMLImageElement>((resolve) => {
-      const img = new Image();
-      img.onload = () => resolve(img);
-      img.src = qrCodeUrl;
-    });
-    
-    // QR Code Placement: Bottom Right, with some padding
-    const qrSize = Math.round(100 * scaleFactor);
-    const qrX = canvas.width - padding - qrSize;
-    const qrY = canvas.height - (bottomLabelHeight / 2) - (qrSize / 2); // Vertically centered in footer
-    
-    // Reset alpha for QR
-    ctx.globalAlpha = 1.0;
-    ctx.drawImage(qrImg, qrX, qrY, qrSize, qrSize);
+    const qrImg = await loadImage(qrCodeUrl);
+    if (qrImg) {
+      const { x, y, size } = footerLayout.qr;
+      ctx.drawImage(qrImg, Math.round(x * scale), Math.round(y * scale), Math.round(size * scale), Math.round(size * scale));
+    }
   }
 
   return canvas.toDataURL("image/png");
-};
\ No newline at end of file
+};
+
+/**
+ * Reads an uploaded image file and rasterizes it to a data URL (PNG by default, keeps transparency).
+ * Raster images are downscaled to fit maxSize (longest side); SVGs are rendered at maxSize.
+ */
+export const loadImageFile = async (
+  file: File,
+  maxSize: number,
+  mimeType = "image/png",
+  quality = 0.9
+): Promise<{ dataUrl: string; width: number; height: number }> => {
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+  const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Unsupported image file"));
+    image.src = dataUrl;
+  });
+
+  // SVGs without explicit dimensions report 0, treat them as square
+  const width = img.naturalWidth || maxSize;
+  const height = img.naturalHeight || maxSize;
+  const isVector = file.type === 'image/svg+xml';
+  const scale = isVector ? maxSize / Math.max(width, height) : Math.min(1, maxSize / Math.max(width, height));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return { dataUrl, width, height };
+
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return { dataUrl: canvas.toDataURL(mimeType, quality), width: canvas.width, height: canvas.height };
+};
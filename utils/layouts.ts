@@ -0,0 +1,250 @@
+// Layout templates: rendering pieces shared by generateComposite and the previews,
+// plus custom layouts from the editor and their JSON files.
+
+import { CustomLayout, DateFormat, FontSpec, FooterConfig, FrameBackground, LayoutDecoration, LayoutRect, LayoutTemplate, LayoutTextSlot, PhotoConfig, PrintSize } from "../types";
+import { FOOTER_FONTS, LAYOUT_UNITS_PER_INCH, PRINT_SIZES, getLayoutTemplate } from "../constants";
+import { getContrastTextColor } from "./frames";
+
+export const LAYOUT_FONTS: Record<LayoutTextSlot['font'], FontSpec> = {
+  serif: { family: '"Playfair Display", serif', style: 'italic', weight: 700 },
+  sans: { family: '"Outfit", sans-serif', style: 'normal', weight: 500 },
+};
+
+// Canvas font shorthand at a pixel size
+export const getCanvasFont = (font: FontSpec, size: number) => `${font.style} ${font.weight} ${size}px ${font.family}`;
+
+export const formatFooterDate = (date: Date, format: DateFormat, locale: string): string => {
+  if (format === DateFormat.NONE) return '';
+  if (format === DateFormat.ISO) {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+  const options: Intl.DateTimeFormatOptions = { dateStyle: format };
+  try {
+    return new Intl.DateTimeFormat(locale || undefined, options).format(date);
+  } catch (e) {
+    // Unknown locale tag, use the browser's
+    return new Intl.DateTimeFormat(undefined, options).format(date);
+  }
+};
+
+export const getFooterTextColor = (footer: FooterConfig, frame: FrameBackground) =>
+  footer.textColor ?? getContrastTextColor(frame);
+
+export const fillLayoutText = (text: string, footer: FooterConfig, date: Date = new Date()) =>
+  text
+    .replace(/\{title\}/g, footer.title)
+    .replace(/\{subtitle\}/g, footer.subtitle)
+    .replace(/\{date\}/g, formatFooterDate(date, footer.dateFormat, footer.locale));
+
+export interface FooterLine {
+  text: string;
+  font: FontSpec;
+  size: number;
+  y: number; // Centre of the line
+  opacity: number;
+}
+
+// Line gap in units of the original 160px footer
+const FOOTER_LINE_GAP = 9;
+
+/**
+ * Positions of the footer lines (title, subtitle, date), the logo and the QR code inside a
+ * footer area, in template units. Proportions follow the original 160px footer: a 48px title,
+ * 24px date and 100px QR code. The logo sits at the left end, the QR code at the right.
+ */
+export const getFooterLayout = (rect: LayoutRect, footer: FooterConfig, date: Date = new Date()) => {
+  const unit = rect.height / 160;
+  const titleFont = FOOTER_FONTS.find(f => f.value === footer.font) ?? FOOTER_FONTS[0];
+  const dateText = formatFooterDate(date, footer.dateFormat, footer.locale);
+
+  const entries = [
+    { text: footer.title, font: titleFont, size: 48 * unit, opacity: 1 },
+    { text: footer.subtitle, font: LAYOUT_FONTS.sans, size: 26 * unit, opacity: 0.85 },
+    { text: dateText, font: LAYOUT_FONTS.sans, size: 24 * unit, opacity: 0.7 },
+  ].filter(entry => entry.text.trim());
+
+  // Stack the lines, then centre the block where the original title and date sat
+  const lines: FooterLine[] = [];
+  let y = 0;
+  entries.forEach((entry, i) => {
+    if (i > 0) y += 0.6 * (entries[i - 1].size + entry.size) + FOOTER_LINE_GAP * unit;
+    lines.push({ ...entry, y });
+  });
+  if (lines.length > 0) {
+    const top = -lines[0].size / 2;
+    const bottom = y + lines[lines.length - 1].size / 2;
+    const offset = rect.y + 66 * unit - (top + bottom) / 2;
+    lines.forEach(line => { line.y += offset; });
+  }
+
+  const qrSize = 100 * unit;
+  let logo: LayoutRect | null = null;
+  if (footer.logo) {
+    const aspect = footer.logo.width / footer.logo.height;
+    const width = Math.min(qrSize * aspect, rect.width * 0.3);
+    const height = width / aspect;
+    logo = { x: rect.x, y: rect.y + rect.height / 2 - height / 2, width, height };
+  }
+
+  return {
+    centerX: rect.x + rect.width / 2,
+    textWidth: Math.max(rect.width * 0.4, rect.width - 2 * (qrSize + 10 * unit)), // Clear of the logo and QR code
+    lines,
+    logo,
+    qr: { x: rect.x + rect.width - qrSize, y: rect.y + rect.height / 2 - qrSize / 2, size: qrSize },
+  };
+};
+
+/**
+ * The template the session uses: the selected custom layout, or the built-in layout for gridType.
+ */
+export const getConfigLayout = (
+  config: Pick<PhotoConfig, 'gridType' | 'customLayoutId' | 'customLayouts'>,
+  photoRatio: number
+): LayoutTemplate =>
+  config.customLayouts.find(l => l.id === config.customLayoutId)?.template ?? getLayoutTemplate(config.gridType, photoRatio);
+
+// Template size of a print size, in print units
+export const getPrintSizeUnits = (printSize: PrintSize) => {
+  const size = PRINT_SIZES.find(p => p.value === printSize) ?? PRINT_SIZES[0];
+  return { width: size.width * LAYOUT_UNITS_PER_INCH, height: size.height * LAYOUT_UNITS_PER_INCH };
+};
+
+/**
+ * Scales a template uniformly to fit a new canvas size, centred. Used to start a custom layout
+ * from a built-in one and when the print size of a layout changes.
+ */
+export const fitTemplate = (template: LayoutTemplate, width: number, height: number): LayoutTemplate => {
+  const scale = Math.min(width / template.width, height / template.height);
+  const offsetX = (width - template.width * scale) / 2;
+  const offsetY = (height - template.height * scale) / 2;
+  const fit = <T extends LayoutRect>(rect: T): T => ({
+    ...rect,
+    x: Math.round(offsetX + rect.x * scale),
+    y: Math.round(offsetY + rect.y * scale),
+    width: Math.round(rect.width * scale),
+    height: Math.round(rect.height * scale),
+  });
+
+  return {
+    width,
+    height,
+    photos: template.photos.map(fit),
+    texts: template.texts.map(t => ({ ...fit(t), size: Math.round(t.size * scale) })),
+    decorations: template.decorations.map(d => ({ ...fit(d), radius: d.radius !== undefined ? Math.round(d.radius * scale) : undefined })),
+    footer: template.footer ? fit(template.footer) : undefined,
+  };
+};
+
+// The print size closest to a template's shape (width / height)
+export const getClosestPrintSize = (ratio: number) =>
+  ratio < 0.5 ? PrintSize.STRIP_2X6 : ratio < 1 ? PrintSize.PORTRAIT_4X6 : PrintSize.LANDSCAPE_6X4;
+
+/**
+ * The layout in print units (LAYOUT_UNITS_PER_INCH): custom layouts are designed at their print
+ * size, built-in ones are fitted onto the print size closest to their shape.
+ */
+export const getConfigPrintLayout = (
+  config: Pick<PhotoConfig, 'gridType' | 'customLayoutId' | 'customLayouts'>,
+  photoRatio: number
+): LayoutTemplate => {
+  const custom = config.customLayouts.find(l => l.id === config.customLayoutId);
+  if (custom) return custom.template;
+  const template = getLayoutTemplate(config.gridType, photoRatio);
+  const { width, height } = getPrintSizeUnits(getClosestPrintSize(template.width / template.height));
+  return fitTemplate(template, width, height);
+};
+
+// --- JSON import/export ---
+
+const LAYOUT_FILE_VERSION = 1;
+
+export const serializeLayout = (layout: CustomLayout) =>
+  JSON.stringify({ version: LAYOUT_FILE_VERSION, name: layout.name, printSize: layout.printSize, template: layout.template }, null, 2);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const isPrintSize = (value: unknown): value is PrintSize => Object.values<unknown>(PrintSize).includes(value);
+const isAlign = (value: unknown): value is LayoutTextSlot['align'] => value === 'left' || value === 'center' || value === 'right';
+
+const readRect = (value: unknown, label: string): LayoutRect => {
+  const { x, y, width, height, rotation } = isRecord(value) ? value : {};
+  if (!isNumber(x) || !isNumber(y) || !isNumber(width) || !isNumber(height)) {
+    throw new Error(`${label} needs numeric x, y, width and height`);
+  }
+  if (width <= 0 || height <= 0) throw new Error(`${label} has no size`);
+  if (rotation !== undefined && !isNumber(rotation)) throw new Error(`${label} has an invalid rotation`);
+  return { x, y, width, height, rotation };
+};
+
+const readText = (value: unknown, index: number): LayoutTextSlot => {
+  const label = `Text ${index + 1}`;
+  const { text, font, size, align, color } = isRecord(value) ? value : {};
+  if (!isString(text)) throw new Error(`${label} has no text`);
+  if (font !== 'serif' && font !== 'sans') throw new Error(`${label} has an unknown font`);
+  if (!isNumber(size) || size <= 0) throw new Error(`${label} has an invalid size`);
+  if (align !== undefined && !isAlign(align)) throw new Error(`${label} has an invalid alignment`);
+  return {
+    ...readRect(value, label),
+    text,
+    font,
+    size,
+    align,
+    color: isString(color) ? color : undefined,
+  };
+};
+
+const readDecoration = (value: unknown, index: number): LayoutDecoration => {
+  const label = `Decoration ${index + 1}`;
+  const { fill, image, radius, above } = isRecord(value) ? value : {};
+  // Only embedded images: remote ones would taint the composite canvas
+  if (image !== undefined && !(isString(image) && image.startsWith('data:image/'))) {
+    throw new Error(`${label} must embed its image as a data URL`);
+  }
+  return {
+    ...readRect(value, label),
+    fill: isString(fill) ? fill : undefined,
+    image,
+    radius: isNumber(radius) ? radius : undefined,
+    above: above === true ? true : undefined,
+  };
+};
+
+/**
+ * Reads a layout exported with serializeLayout. Throws with a readable message when the file
+ * isn't a valid layout. The caller assigns the id.
+ */
+export const parseLayoutJson = (text: string): Omit<CustomLayout, 'id'> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error("The file is not valid JSON");
+  }
+
+  if (!isRecord(data) || data.version !== LAYOUT_FILE_VERSION) throw new Error("Unsupported layout file version");
+  const { name, printSize, template } = data;
+  if (!isPrintSize(printSize)) throw new Error(`Unknown print size "${printSize}"`);
+
+  const { width, height, photos, texts, decorations, footer } = isRecord(template) ? template : {};
+  if (!isNumber(width) || !isNumber(height) || width <= 0 || height <= 0) {
+    throw new Error("The layout has no canvas size");
+  }
+  if (!Array.isArray(photos) || photos.length === 0) throw new Error("The layout has no photo slots");
+
+  return {
+    name: isString(name) && name.trim() ? name.trim() : "Imported layout",
+    printSize,
+    template: {
+      width,
+      height,
+      photos: photos.map((p: unknown, i: number) => readRect(p, `Photo ${i + 1}`)),
+      texts: Array.isArray(texts) ? texts.map(readText) : [],
+      decorations: Array.isArray(decorations) ? decorations.map(readDecoration) : [],
+      footer: footer ? readRect(footer, "Footer") : undefined,
+    },
+  };
+};
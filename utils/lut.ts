@@ -0,0 +1,79 @@
+// 3D LUT support for .cube color grades (Adobe/Resolve format).
+
+export interface Lut3D {
+  title: string;
+  size: number; // Entries per axis
+  data: Float32Array; // RGB triplets, red changing fastest, then green, then blue
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+}
+
+const parseTriplet = (parts: string[], line: number): [number, number, number] => {
+  const values = parts.slice(0, 3).map(Number);
+  if (values.length < 3 || values.some(v => !Number.isFinite(v))) {
+    throw new Error(`Invalid values on line ${line}`);
+  }
+  return values as [number, number, number];
+};
+
+/**
+ * Parses the text of a .cube file. Only 3D LUTs are supported.
+ * Throws with a readable message when the file is malformed.
+ */
+export const parseCubeLut = (text: string, fallbackTitle = "LUT"): Lut3D => {
+  let title = fallbackTitle;
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  const values: number[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const parts = line.split(/\s+/);
+    const keyword = parts[0].toUpperCase();
+
+    if (keyword === 'TITLE') {
+      title = line.slice(5).trim().replace(/^"|"$/g, '') || title;
+    } else if (keyword === 'LUT_3D_SIZE') {
+      size = parseInt(parts[1], 10);
+      if (!(size >= 2 && size <= 256)) throw new Error(`Unsupported LUT size "${parts[1]}"`);
+    } else if (keyword === 'LUT_1D_SIZE') {
+      throw new Error("1D LUTs are not supported, please export a 3D LUT");
+    } else if (keyword === 'DOMAIN_MIN') {
+      domainMin = parseTriplet(parts.slice(1), index + 1);
+    } else if (keyword === 'DOMAIN_MAX') {
+      domainMax = parseTriplet(parts.slice(1), index + 1);
+    } else if (/^[-+.\d]/.test(keyword)) {
+      values.push(...parseTriplet(parts, index + 1));
+    }
+    // Other keywords (LUT_3D_INPUT_RANGE, vendor extensions) are ignored
+  });
+
+  if (!size) throw new Error("Missing LUT_3D_SIZE");
+  if (values.length !== size * size * size * 3) {
+    throw new Error(`Expected ${size * size * size} entries, found ${values.length / 3}`);
+  }
+
+  return { title, size, data: new Float32Array(values), domainMin, domainMax };
+};
+
+// Presets are fetched once and shared by every component that uses them
+const presetCache = new Map<string, Promise<Lut3D>>();
+
+export const loadLutPreset = (url: string, title: string): Promise<Lut3D> => {
+  let pending = presetCache.get(url);
+  if (!pending) {
+    pending = fetch(url)
+      .then(response => {
+        if (!response.ok) throw new Error(`Failed to load LUT (${response.status})`);
+        return response.text();
+      })
+      .then(text => parseCubeLut(text, title));
+    // Allow a retry after a failed download
+    pending.catch(() => presetCache.delete(url));
+    presetCache.set(url, pending);
+  }
+  return pending;
+};
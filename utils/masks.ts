@@ -0,0 +1,249 @@
+import { CustomMaskConfig, FaceData, FaceLandmarks, MaskAnchor, MaskAnimation, MaskDefinition, MaskGraphic, MaskType } from "../types";
+import { MASK_DEFINITIONS } from "../constants";
+import { getFaceLandmarks } from "./faceTracking";
+
+// Region of a source frame, normalized 0-1
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A mask item resolved to frame pixels, ready for the canvas or SVG renderer
+export interface PlacedMaskItem {
+  x: number; // Centre
+  y: number;
+  width: number;
+  height: number;
+  rotation: number; // degrees
+  opacity: number;
+  color?: string;
+  graphic: MaskGraphic;
+  glow?: { color: string; blur: number }; // blur in pixels
+}
+
+// The uploaded sticker as a single-item mask that turns with the head
+const buildCustomMaskDefinition = (custom: CustomMaskConfig): MaskDefinition => ({
+  anchor: custom.anchor,
+  followRoll: true,
+  showWithoutFace: false,
+  graphic: {
+    viewBox: { width: custom.imageWidth, height: custom.imageHeight },
+    image: custom.image,
+  },
+  items: [{ x: 0, y: custom.offsetY, size: custom.scale }],
+});
+
+export const getMaskDefinition = (type: MaskType, customMask?: CustomMaskConfig | null): MaskDefinition | undefined => {
+  if (type === MaskType.CUSTOM) {
+    return customMask ? buildCustomMaskDefinition(customMask) : undefined;
+  }
+  return MASK_DEFINITIONS[type];
+};
+
+/**
+ * Re-expresses a face (normalized to the full source frame) relative to a crop of that frame.
+ * Used for the capture crop and for the preview's object-fit: cover crop.
+ */
+export const cropFace = (face: FaceData, crop: CropRect): FaceData => {
+  const mapX = (x: number) => (x - crop.x) / crop.width;
+  const mapY = (y: number) => (y - crop.y) / crop.height;
+
+  let landmarks: FaceLandmarks | undefined;
+  if (face.landmarks) {
+    landmarks = {} as FaceLandmarks;
+    (Object.keys(face.landmarks) as (keyof FaceLandmarks)[]).forEach(key => {
+      const [lx, ly] = face.landmarks![key];
+      landmarks![key] = [mapX(lx), mapY(ly)];
+    });
+  }
+
+  return {
+    ...face,
+    landmarks,
+    x: mapX(face.x),
+    y: mapY(face.y),
+    width: face.width / crop.width,
+    height: face.height / crop.height,
+    videoWidth: face.videoWidth * crop.width,
+    videoHeight: face.videoHeight * crop.height,
+  };
+};
+
+// Crop of a source frame that fills a target ratio (object-fit: cover, centred)
+export const getCoverCrop = (sourceRatio: number, targetRatio: number): CropRect => {
+  if (sourceRatio > targetRatio) {
+    const width = targetRatio / sourceRatio;
+    return { x: (1 - width) / 2, y: 0, width, height: 1 };
+  }
+  const height = sourceRatio / targetRatio;
+  return { x: 0, y: (1 - height) / 2, width: 1, height };
+};
+
+// Stand-in face used while nobody is detected: the reference face (0.35 of a 4:3 frame)
+// with its crown at 30% of the height, where the original overlays sat.
+const getDefaultFace = (frameWidth: number, frameHeight: number): FaceData => {
+  const faceWidthPx = Math.min(frameWidth, frameHeight * 4/3) * 0.35;
+  const width = faceWidthPx / frameWidth;
+  const height = faceWidthPx / frameHeight;
+  return {
+    id: 0,
+    x: 0.5,
+    y: 0.3 + height * 0.6,
+    width,
+    height,
+    videoWidth: frameWidth,
+    videoHeight: frameHeight,
+    roll: 0,
+  };
+};
+
+// Anchor point in frame pixels, the face width in pixels (the mask's unit) and the mask rotation
+const getAnchor = (definition: MaskDefinition, face: FaceData, frameWidth: number, frameHeight: number) => {
+  const unit = face.width * frameWidth;
+  const rotation = definition.followRoll ? face.roll : 0;
+  const { rightEye, leftEye, nose, mouth } = getFaceLandmarks(face);
+  const eyeMidX = ((rightEye[0] + leftEye[0]) / 2) * frameWidth;
+  const eyeMidY = ((rightEye[1] + leftEye[1]) / 2) * frameHeight;
+
+  switch (definition.anchor) {
+    case MaskAnchor.HEAD_TOP: {
+      // Move "up" along the head's axis (perpendicular to the eye line)
+      const lift = face.height * frameHeight * 0.6;
+      const rad = face.roll * Math.PI / 180;
+      return { x: eyeMidX + Math.sin(rad) * lift, y: eyeMidY - Math.cos(rad) * lift, unit, rotation };
+    }
+    case MaskAnchor.EYES:
+      return { x: eyeMidX, y: eyeMidY, unit, rotation };
+    case MaskAnchor.UPPER_LIP:
+      // Between nose and mouth, closer to the nose
+      return {
+        x: (nose[0] + (mouth[0] - nose[0]) * 0.45) * frameWidth,
+        y: (nose[1] + (mouth[1] - nose[1]) * 0.45) * frameHeight,
+        unit,
+        rotation,
+      };
+    case MaskAnchor.CROWN:
+    default:
+      // Centre of the halo = face centre - 0.6 face heights, roughly the top of the forehead
+      return { x: face.x * frameWidth, y: (face.y - face.height * 0.6) * frameHeight, unit, rotation };
+  }
+};
+
+// Time-based animation so preview and capture agree on where each item is at a given moment
+const animate = (animation: MaskAnimation | undefined, time: number, delay: number) => {
+  if (!animation) return { dy: 0, scale: 1 };
+  const phase = (((time + delay) % animation.period) / animation.period) * Math.PI * 2;
+
+  if (animation.kind === 'pulse') {
+    return { dy: 0, scale: 1 + animation.amplitude * Math.sin(phase) };
+  }
+  // float: bob up and back down once per period
+  return { dy: -animation.amplitude * (0.5 - 0.5 * Math.cos(phase)), scale: 1 };
+};
+
+/**
+ * Resolves a mask definition to pixel placements for every face in a frame.
+ * faces must be normalized to the frame being drawn (see cropFace).
+ */
+export const layoutMask = (
+  definition: MaskDefinition,
+  faces: FaceData[],
+  frameWidth: number,
+  frameHeight: number,
+  time: number // seconds
+): PlacedMaskItem[] => {
+  const targets = faces.length > 0
+    ? faces
+    : definition.showWithoutFace ? [getDefaultFace(frameWidth, frameHeight)] : [];
+
+  const { viewBox } = definition.graphic;
+  const placed: PlacedMaskItem[] = [];
+
+  targets.forEach(face => {
+    const anchor = getAnchor(definition, face, frameWidth, frameHeight);
+    const rad = anchor.rotation * Math.PI / 180;
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+
+    definition.items.forEach(item => {
+      const { dy, scale } = animate(definition.animation, time, item.delay ?? 0);
+      // Offset in face widths, rotated into the head's frame
+      const ox = item.x * anchor.unit;
+      const oy = (item.y + dy) * anchor.unit;
+      const width = item.size * anchor.unit * scale;
+
+      placed.push({
+        x: anchor.x + ox * cos - oy * sin,
+        y: anchor.y + ox * sin + oy * cos,
+        width,
+        height: width * (viewBox.height / viewBox.width),
+        rotation: anchor.rotation + (item.rotation ?? 0),
+        opacity: item.opacity ?? 1,
+        color: item.color,
+        graphic: definition.graphic,
+        glow: definition.glow ? { color: definition.glow.color, blur: definition.glow.blur * anchor.unit } : undefined,
+      });
+    });
+  });
+
+  return placed;
+};
+
+// Image assets must be decoded before they can be drawn on a canvas. The first capture after
+// selecting a mask may miss an image that is still loading, later ones pick it up from the cache.
+const imageCache = new Map<string, HTMLImageElement>();
+
+export const preloadMaskImage = (src: string): HTMLImageElement | null => {
+  let img = imageCache.get(src);
+  if (!img) {
+    img = new Image();
+    img.src = src;
+    imageCache.set(src, img);
+  }
+  return img.complete && img.naturalWidth > 0 ? img : null;
+};
+
+/**
+ * Draws a mask for every face on the canvas. The context is expected to be mirrored
+ * (like the capture canvas); each item is flipped back so artwork isn't drawn reversed.
+ */
+export const drawMask = (
+  ctx: CanvasRenderingContext2D,
+  frameWidth: number,
+  frameHeight: number,
+  type: MaskType,
+  faces: FaceData[],
+  time: number,
+  customMask?: CustomMaskConfig | null
+) => {
+  const definition = getMaskDefinition(type, customMask);
+  if (!definition) return;
+
+  layoutMask(definition, faces, frameWidth, frameHeight, time).forEach(item => {
+    const { viewBox, paths, image } = item.graphic;
+
+    ctx.save();
+    ctx.translate(item.x, item.y);
+    ctx.rotate(item.rotation * Math.PI / 180);
+    ctx.scale(-1, 1);
+    ctx.globalAlpha = item.opacity;
+    if (item.glow) {
+      ctx.shadowColor = item.glow.color;
+      ctx.shadowBlur = item.glow.blur;
+    }
+    ctx.scale(item.width / viewBox.width, item.height / viewBox.height);
+    ctx.translate(-viewBox.width / 2, -viewBox.height / 2);
+
+    if (image) {
+      const img = preloadMaskImage(image);
+      if (img) ctx.drawImage(img, 0, 0, viewBox.width, viewBox.height);
+    }
+    paths?.forEach(path => {
+      ctx.fillStyle = path.fill ?? item.color ?? '#000000';
+      ctx.fill(new Path2D(path.d));
+    });
+    ctx.restore();
+  });
+};
@@ -0,0 +1,127 @@
+// Minimal MP4 (ISO BMFF) writer for one H.264 track from WebCodecs: all samples in a single
+// chunk, with the moov box ahead of the media data so playback can start while downloading.
+
+import { EncodedVideoSample, EncodedVideoTrack } from "../types";
+
+const TIMESCALE = 90000; // Media ticks per second, the usual rate for video
+const MOVIE_TIMESCALE = 1000;
+const IDENTITY_MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+
+type Field = number | Uint8Array | string;
+
+// Big-endian fields: numbers are 32-bit unless given as [value, bytes]
+const pack = (...fields: (Field | [number, number])[]) => {
+  const parts = fields.map(field => {
+    if (field instanceof Uint8Array) return field;
+    if (typeof field === 'string') return Uint8Array.from(field, c => c.charCodeAt(0));
+    const [value, bytes] = Array.isArray(field) ? field : [field, 4];
+    const out = new Uint8Array(bytes);
+    for (let i = 0; i < bytes; i++) out[i] = Math.floor(value / 2 ** (8 * (bytes - 1 - i))) & 255;
+    return out;
+  });
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+const box = (type: string, ...content: Uint8Array[]) => {
+  const body = pack(...content);
+  return pack(8 + body.length, type, body);
+};
+
+const fullBox = (type: string, version: number, flags: number, ...content: Uint8Array[]) =>
+  box(type, pack([version, 1], [flags, 3]), ...content);
+
+const buildMoov = (track: EncodedVideoTrack, samples: EncodedVideoSample[], dataOffset: number) => {
+  const ticks = (us: number) => Math.round(us * TIMESCALE / 1e6);
+  const end = Math.max(...samples.map(sample => sample.timestamp + sample.duration));
+  const mediaDuration = ticks(end);
+  const movieDuration = Math.round(end * MOVIE_TIMESCALE / 1e6);
+
+  // Samples come in decode order with presentation timestamps. Decode times are the presentation
+  // times in order; reordered frames (B-frames) get composition offsets, shifted to be positive
+  // with an edit list starting playback at the first presented frame.
+  const presentation = samples.map(sample => ticks(sample.timestamp));
+  const decode = [...presentation].sort((a, b) => a - b);
+  const offsets = presentation.map((time, i) => time - decode[i]);
+  const shift = Math.max(0, ...offsets.map(offset => -offset));
+  const reordered = offsets.some(offset => offset !== 0);
+
+  const runLength = (values: number[]) => values.reduce<[number, number][]>((runs, value) => {
+    const last = runs[runs.length - 1];
+    if (last && last[1] === value) last[0]++;
+    else runs.push([1, value]);
+    return runs;
+  }, []);
+  const deltas = runLength(decode.map((time, i) => (i + 1 < decode.length ? decode[i + 1] : mediaDuration) - time));
+  const compositionOffsets = runLength(offsets.map(offset => offset + shift));
+  const keyframes = samples.map((sample, i) => (sample.keyframe ? i + 1 : 0)).filter(Boolean);
+
+  const sampleEntry = box('avc1',
+    pack([0, 6], [1, 2]), // Reserved, data reference index
+    pack([0, 16]), // Pre-defined and reserved
+    pack([track.width, 2], [track.height, 2]),
+    pack(0x00480000, 0x00480000, 0, [1, 2]), // 72 dpi, reserved, one frame per sample
+    new Uint8Array(32), // Compressor name
+    pack([0x18, 2], [0xffff, 2]), // Depth, pre-defined
+    box('avcC', track.description)
+  );
+
+  const stbl = box('stbl',
+    fullBox('stsd', 0, 0, pack(1), sampleEntry),
+    fullBox('stts', 0, 0, pack(deltas.length, ...deltas.flat())),
+    ...(reordered ? [fullBox('ctts', 0, 0, pack(compositionOffsets.length, ...compositionOffsets.flat()))] : []),
+    fullBox('stss', 0, 0, pack(keyframes.length, ...keyframes)),
+    fullBox('stsc', 0, 0, pack(1, 1, samples.length, 1)),
+    fullBox('stsz', 0, 0, pack(0, samples.length, ...samples.map(sample => sample.data.length))),
+    fullBox('stco', 0, 0, pack(1, dataOffset))
+  );
+
+  const minf = box('minf',
+    fullBox('vmhd', 0, 1, pack([0, 8])),
+    box('dinf', fullBox('dref', 0, 0, pack(1), fullBox('url ', 0, 1))),
+    stbl
+  );
+
+  const mdia = box('mdia',
+    fullBox('mdhd', 0, 0, pack(0, 0, TIMESCALE, mediaDuration, [0x55c4, 2], [0, 2])), // Language: und
+    fullBox('hdlr', 0, 0, pack(0, 'vide', 0, 0, 0, 'VideoHandler\0')),
+    minf
+  );
+
+  const tkhd = fullBox('tkhd', 0, 3, pack(
+    0, 0, 1, 0, movieDuration, // Times, track ID, duration
+    0, 0, [0, 2], [0, 2], [0, 2], [0, 2], // Reserved, layer, group, volume
+    ...IDENTITY_MATRIX,
+    track.width * 0x10000, track.height * 0x10000
+  ));
+
+  const mvhd = fullBox('mvhd', 0, 0, pack(
+    0, 0, MOVIE_TIMESCALE, movieDuration,
+    0x00010000, [0x0100, 2], [0, 10], // Rate, volume, reserved
+    ...IDENTITY_MATRIX,
+    [0, 24], // Pre-defined
+    2 // Next track ID
+  ));
+
+  const edts = box('edts', fullBox('elst', 0, 0, pack(1, movieDuration, shift, [1, 2], [0, 2])));
+
+  return box('moov', mvhd, box('trak', tkhd, ...(shift > 0 ? [edts] : []), mdia));
+};
+
+/**
+ * Writes H.264 samples (AVC format, with the avcC from the encoder's decoder config) as an MP4.
+ */
+export const muxMp4 = (track: EncodedVideoTrack, samples: EncodedVideoSample[]): Blob => {
+  const ftyp = box('ftyp', pack('isom', 0x200, 'isom', 'iso2', 'avc1', 'mp41'));
+  // The moov size doesn't depend on the offset it records, so measure it first
+  const moovSize = buildMoov(track, samples, 0).length;
+  const moov = buildMoov(track, samples, ftyp.length + moovSize + 8);
+  const dataSize = samples.reduce((sum, sample) => sum + sample.data.length, 0);
+
+  return new Blob([ftyp, moov, pack(8 + dataSize, 'mdat'), ...samples.map(sample => sample.data)], { type: 'video/mp4' });
+};
@@ -0,0 +1,510 @@
+// Vector PDF of a composite, written in the browser. Draws the same template as
+// generateComposite, with photos embedded as full-resolution JPEGs, text in the standard PDF
+// fonts and the QR code as vector modules. Templates must be in print units (1/300 inch, see
+// getConfigPrintLayout) so the page comes out at its print size.
+
+import { FontSpec, FooterConfig, FrameBackground, FrameStyle, LayoutRect, LayoutTemplate } from "../types";
+import { LAYOUT_UNITS_PER_INCH } from "../constants";
+import { LAYOUT_FONTS, fillLayoutText, getFooterLayout, getFooterTextColor } from "./layouts";
+import { CHECKER_CELL, POLKA_RADIUS, POLKA_TILE, STRIPE_WIDTH, getContrastTextColor, getGradientLength } from "./frames";
+import { loadImage } from "./imageProcessing";
+
+/** Dark modules of a QR code, row by row */
+export type QrMatrix = boolean[][];
+
+const POINTS_PER_UNIT = 72 / LAYOUT_UNITS_PER_INCH;
+const PHOTO_JPEG_QUALITY = 0.95;
+// Bezier handle length of a quarter circle
+const KAPPA = 0.5523;
+
+// --- File structure ---
+
+type PdfObject = { value: string } | { dict: string; stream: Uint8Array<ArrayBuffer> };
+
+const encoder = new TextEncoder();
+
+const serializePdf = (objects: PdfObject[], rootId: number): Blob => {
+  const parts: BlobPart[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (chunk: string | Uint8Array<ArrayBuffer>) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+
+  write('%PDF-1.4\n');
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a])); // Marks the file as binary
+  objects.forEach((object, i) => {
+    offsets.push(length);
+    if ('stream' in object) {
+      write(`${i + 1} 0 obj\n<< ${object.dict} /Length ${object.stream.length} >>\nstream\n`);
+      write(object.stream);
+      write('\nendstream\nendobj\n');
+    } else {
+      write(`${i + 1} 0 obj\n${object.value}\nendobj\n`);
+    }
+  });
+
+  const xref = length;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${objects.length + 1} /Root ${rootId} 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+  return new Blob(parts, { type: 'application/pdf' });
+};
+
+const num = (value: number) => String(Math.round(value * 1000) / 1000);
+
+const deflate = async (data: Uint8Array<ArrayBuffer>) =>
+  new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'))).arrayBuffer());
+
+// --- Colors and text ---
+
+let scratchContext: CanvasRenderingContext2D | null = null;
+const getScratchContext = () => (scratchContext ??= document.createElement("canvas").getContext("2d"));
+
+// Any CSS color as 0-1 RGB plus alpha; the canvas normalises it to hex or rgba()
+const parseColor = (css: string): { rgb: [number, number, number]; alpha: number } => {
+  const ctx = getScratchContext();
+  if (!ctx) return { rgb: [0, 0, 0], alpha: 1 };
+  ctx.fillStyle = '#000000';
+  ctx.fillStyle = css;
+  const value = String(ctx.fillStyle);
+  if (value.startsWith('#')) {
+    const n = parseInt(value.slice(1), 16);
+    return { rgb: [((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255], alpha: 1 };
+  }
+  const [r = 0, g = 0, b = 0, a = 1] = value.match(/[\d.]+/g)?.map(Number) ?? [];
+  return { rgb: [r / 255, g / 255, b / 255], alpha: a };
+};
+
+// Windows-1252 characters outside Latin-1; the standard fonts use WinAnsiEncoding
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89,
+  'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95,
+  '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+const toWinAnsi = (char: string) => {
+  const code = char.codePointAt(0) ?? 0x3f;
+  if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) return code;
+  return WIN_ANSI_EXTRA[char] ?? null;
+};
+
+// Characters the standard fonts can't show become '?'
+const toPrintableText = (text: string) => Array.from(text).map(char => (toWinAnsi(char) === null ? '?' : char)).join('');
+
+const toPdfString = (text: string) =>
+  `<${Array.from(text).map(char => (toWinAnsi(char) ?? 0x3f).toString(16).padStart(2, '0')).join('')}>`;
+
+// Closest standard font, plus a metric-compatible system font to measure with
+const getStandardFont = (font: FontSpec) => {
+  const serif = /serif|cursive/.test(font.family) && !/sans-serif/.test(font.family);
+  const bold = font.weight >= 600;
+  const italic = font.style === 'italic' || /cursive/.test(font.family);
+  const name = serif
+    ? `Times-${bold && italic ? 'BoldItalic' : bold ? 'Bold' : italic ? 'Italic' : 'Roman'}`
+    : `Helvetica${bold && italic ? '-BoldOblique' : bold ? '-Bold' : italic ? '-Oblique' : ''}`;
+  const family = serif ? '"Times New Roman", Times, "Liberation Serif", serif' : 'Arial, Helvetica, "Liberation Sans", sans-serif';
+  return { name, measureFont: `${italic ? 'italic' : 'normal'} ${bold ? 'bold' : 'normal'} 100px ${family}` };
+};
+
+// Width and em box of text at size 1
+const measureText = (text: string, measureFont: string) => {
+  const ctx = getScratchContext();
+  if (!ctx) return { width: text.length * 0.5, ascent: 0.8, descent: 0.2 };
+  ctx.font = measureFont;
+  const metrics = ctx.measureText(text);
+  return {
+    width: metrics.width / 100,
+    ascent: (metrics.fontBoundingBoxAscent ?? 80) / 100,
+    descent: (metrics.fontBoundingBoxDescent ?? 20) / 100,
+  };
+};
+
+// --- Images ---
+
+const dataUrlToBytes = (url: string) => {
+  const binary = atob(url.slice(url.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const drawToCanvas = (img: HTMLImageElement, background?: string) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available");
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.drawImage(img, 0, 0);
+  return { canvas, ctx };
+};
+
+const encodeJpeg = (canvas: HTMLCanvasElement) => new Promise<Uint8Array<ArrayBuffer>>((resolve, reject) => {
+  canvas.toBlob(blob => {
+    if (!blob) reject(new Error("The image could not be encoded"));
+    else blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+  }, "image/jpeg", PHOTO_JPEG_QUALITY);
+});
+
+interface PdfImage {
+  name: string; // Resource name
+  width: number;
+  height: number;
+}
+
+/**
+ * Writes the composite as a one-page PDF. Takes the same inputs as generateComposite, except
+ * the QR code, which comes as its module matrix so it can be drawn as vectors.
+ */
+export const generateCompositePdf = async (
+  images: string[],
+  template: LayoutTemplate,
+  frame: FrameBackground,
+  footer: FooterConfig,
+  qr?: QrMatrix | null
+): Promise<Blob> => {
+  const objects: PdfObject[] = [];
+  const add = (object: PdfObject) => objects.push(object); // New object number
+  // Resource name and object number, by base font and by opacity
+  const fonts = new Map<string, { name: string; id: number }>();
+  const states = new Map<number, { name: string; id: number }>();
+  const resources = { images: [] as string[], shadings: [] as string[] };
+  const ops: string[] = [];
+
+  const useFont = (baseFont: string) => {
+    let entry = fonts.get(baseFont);
+    if (!entry) {
+      entry = { name: `F${fonts.size}`, id: add({ value: `<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>` }) };
+      fonts.set(baseFont, entry);
+    }
+    return entry.name;
+  };
+
+  const useAlpha = (alpha: number) => {
+    const key = Math.round(alpha * 1000) / 1000;
+    let entry = states.get(key);
+    if (!entry) {
+      entry = { name: `GS${states.size}`, id: add({ value: `<< /Type /ExtGState /ca ${num(key)} /CA ${num(key)} >>` }) };
+      states.set(key, entry);
+    }
+    return entry.name;
+  };
+
+  // Fill color for the following paths; callers wrap in q/Q so alpha doesn't leak
+  const setFill = (css: string, opacity = 1) => {
+    const { rgb, alpha } = parseColor(css);
+    ops.push(`${rgb.map(num).join(' ')} rg`);
+    if (alpha * opacity < 1) ops.push(`/${useAlpha(alpha * opacity)} gs`);
+  };
+
+  // --- Embedding ---
+
+  // Photos and the frame image: JPEG as-is when it already is one, otherwise encoded at full size
+  const embedJpeg = async (src: string): Promise<PdfImage | null> => {
+    const img = await loadImage(src);
+    if (!img) return null;
+    const bytes = src.startsWith('data:image/jpeg') ? dataUrlToBytes(src) : await encodeJpeg(drawToCanvas(img, '#FFFFFF').canvas);
+    const id = add({
+      dict: `/Type /XObject /Subtype /Image /Width ${img.naturalWidth} /Height ${img.naturalHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode`,
+      stream: bytes,
+    });
+    const name = `Im${resources.images.length}`;
+    resources.images.push(`/${name} ${id} 0 R`);
+    return { name, width: img.naturalWidth, height: img.naturalHeight };
+  };
+
+  // Logos and decoration images keep their transparency as a soft mask
+  const embedGraphic = async (src: string): Promise<PdfImage | null> => {
+    const img = await loadImage(src);
+    if (!img || img.naturalWidth === 0) return null;
+    const { canvas, ctx } = drawToCanvas(img);
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+    const rgb = new Uint8Array(canvas.width * canvas.height * 3);
+    const alpha = new Uint8Array(canvas.width * canvas.height);
+    let transparent = false;
+    for (let i = 0; i < alpha.length; i++) {
+      rgb[i * 3] = pixels[i * 4];
+      rgb[i * 3 + 1] = pixels[i * 4 + 1];
+      rgb[i * 3 + 2] = pixels[i * 4 + 2];
+      alpha[i] = pixels[i * 4 + 3];
+      if (alpha[i] < 255) transparent = true;
+    }
+
+    const size = `/Width ${canvas.width} /Height ${canvas.height} /BitsPerComponent 8 /Filter /FlateDecode`;
+    const maskId = transparent
+      ? add({ dict: `/Type /XObject /Subtype /Image ${size} /ColorSpace /DeviceGray`, stream: await deflate(alpha) })
+      : null;
+    const id = add({
+      dict: `/Type /XObject /Subtype /Image ${size} /ColorSpace /DeviceRGB${maskId ? ` /SMask ${maskId} 0 R` : ''}`,
+      stream: await deflate(rgb),
+    });
+    const name = `Im${resources.images.length}`;
+    resources.images.push(`/${name} ${id} 0 R`);
+    return { name, width: canvas.width, height: canvas.height };
+  };
+
+  const photos = await Promise.all(images.map(embedJpeg));
+  const decorationImages = await Promise.all(template.decorations.map(d => (d.image ? embedGraphic(d.image) : Promise.resolve(null))));
+  const frameImage = frame.style === FrameStyle.IMAGE && frame.image ? await embedJpeg(frame.image) : null;
+  const logoImage = footer.logo ? await embedGraphic(footer.logo.image) : null;
+
+  // --- Drawing, in template units with the origin at the top left (see the page transform) ---
+
+  // Image space is a unit square with the first row at the top
+  const drawImage = (image: PdfImage, x: number, y: number, width: number, height: number) => {
+    ops.push(`q ${num(width)} 0 0 ${num(-height)} ${num(x)} ${num(y + height)} cm /${image.name} Do Q`);
+  };
+
+  // Like withLayoutRect in generateComposite: centred on the box and rotated with it
+  const withRect = (rect: LayoutRect, draw: (x: number, y: number, width: number, height: number) => void) => {
+    ops.push('q', `1 0 0 1 ${num(rect.x + rect.width / 2)} ${num(rect.y + rect.height / 2)} cm`);
+    if (rect.rotation) {
+      const angle = rect.rotation * Math.PI / 180;
+      ops.push(`${num(Math.cos(angle))} ${num(Math.sin(angle))} ${num(-Math.sin(angle))} ${num(Math.cos(angle))} 0 0 cm`);
+    }
+    draw(-rect.width / 2, -rect.height / 2, rect.width, rect.height);
+    ops.push('Q');
+  };
+
+  const roundRectPath = (x: number, y: number, width: number, height: number, radius: number) => {
+    const r = Math.min(radius, width / 2, height / 2);
+    if (r <= 0) return `${num(x)} ${num(y)} ${num(width)} ${num(height)} re`;
+    const k = r * KAPPA;
+    const right = x + width;
+    const bottom = y + height;
+    return [
+      `${num(x + r)} ${num(y)} m`,
+      `${num(right - r)} ${num(y)} l`,
+      `${num(right - r + k)} ${num(y)} ${num(right)} ${num(y + r - k)} ${num(right)} ${num(y + r)} c`,
+      `${num(right)} ${num(bottom - r)} l`,
+      `${num(right)} ${num(bottom - r + k)} ${num(right - r + k)} ${num(bottom)} ${num(right - r)} ${num(bottom)} c`,
+      `${num(x + r)} ${num(bottom)} l`,
+      `${num(x + r - k)} ${num(bottom)} ${num(x)} ${num(bottom - r + k)} ${num(x)} ${num(bottom - r)} c`,
+      `${num(x)} ${num(y + r)} l`,
+      `${num(x)} ${num(y + r - k)} ${num(x + r - k)} ${num(y)} ${num(x + r)} ${num(y)} c`,
+      'h',
+    ].join(' ');
+  };
+
+  const circlePath = (cx: number, cy: number, r: number) => {
+    const k = r * KAPPA;
+    return [
+      `${num(cx + r)} ${num(cy)} m`,
+      `${num(cx + r)} ${num(cy + k)} ${num(cx + k)} ${num(cy + r)} ${num(cx)} ${num(cy + r)} c`,
+      `${num(cx - k)} ${num(cy + r)} ${num(cx - r)} ${num(cy + k)} ${num(cx - r)} ${num(cy)} c`,
+      `${num(cx - r)} ${num(cy - k)} ${num(cx - k)} ${num(cy - r)} ${num(cx)} ${num(cy - r)} c`,
+      `${num(cx + k)} ${num(cy - r)} ${num(cx + r)} ${num(cy - k)} ${num(cx + r)} ${num(cy)} c`,
+      'h',
+    ].join(' ');
+  };
+
+  const addShading = (type: 2 | 3, coords: number[]) => {
+    const c0 = parseColor(frame.color).rgb.map(num).join(' ');
+    const c1 = parseColor(frame.color2).rgb.map(num).join(' ');
+    const id = add({
+      value: `<< /ShadingType ${type} /ColorSpace /DeviceRGB /Coords [${coords.map(num).join(' ')}] /Function << /FunctionType 2 /Domain [0 1] /C0 [${c0}] /C1 [${c1}] /N 1 >> /Extend [true true] >>`,
+    });
+    const name = `Sh${resources.shadings.length}`;
+    resources.shadings.push(`/${name} ${id} 0 R`);
+    return name;
+  };
+
+  // Same geometry as drawFrameBackground
+  const paintFrame = (width: number, height: number) => {
+    const shortSide = Math.min(width, height);
+    ops.push('q', `0 0 ${num(width)} ${num(height)} re W n`);
+    setFill(frame.color);
+    ops.push(`0 0 ${num(width)} ${num(height)} re f`);
+    setFill(frame.color2);
+
+    switch (frame.style) {
+      case FrameStyle.LINEAR: {
+        const angle = frame.angle * Math.PI / 180;
+        const half = getGradientLength(width, height, frame.angle) / 2;
+        const dx = Math.sin(angle) * half;
+        const dy = -Math.cos(angle) * half;
+        ops.push(`/${addShading(2, [width / 2 - dx, height / 2 - dy, width / 2 + dx, height / 2 + dy])} sh`);
+        break;
+      }
+      case FrameStyle.RADIAL:
+        ops.push(`/${addShading(3, [width / 2, height / 2, 0, width / 2, height / 2, Math.hypot(width, height) / 2])} sh`);
+        break;
+      case FrameStyle.CHECKER: {
+        const cell = shortSide * CHECKER_CELL;
+        const cells: string[] = [];
+        for (let row = 0; row * cell < height; row++) {
+          for (let col = 0; col * cell < width; col++) {
+            if ((row + col) % 2 === 1) cells.push(`${num(col * cell)} ${num(row * cell)} ${num(cell)} ${num(cell)} re`);
+          }
+        }
+        ops.push(...cells, 'f');
+        break;
+      }
+      case FrameStyle.POLKA: {
+        const tile = shortSide * POLKA_TILE;
+        const dots: string[] = [];
+        for (let row = 0; row * tile < height; row++) {
+          for (let col = 0; col * tile < width; col++) {
+            dots.push(circlePath((col + 0.5) * tile, (row + 0.5) * tile, tile * POLKA_RADIUS));
+          }
+        }
+        ops.push(...dots, 'f');
+        break;
+      }
+      case FrameStyle.STRIPES: {
+        const stripe = shortSide * STRIPE_WIDTH;
+        const half = getGradientLength(width, height, frame.angle) / 2;
+        const reach = Math.hypot(width, height) / 2;
+        const angle = (frame.angle - 90) * Math.PI / 180;
+        ops.push(`1 0 0 1 ${num(width / 2)} ${num(height / 2)} cm`);
+        ops.push(`${num(Math.cos(angle))} ${num(Math.sin(angle))} ${num(-Math.sin(angle))} ${num(Math.cos(angle))} 0 0 cm`);
+        const bands: string[] = [];
+        for (let x = -half + stripe; x < half; x += stripe * 2) {
+          bands.push(`${num(x)} ${num(-reach)} ${num(stripe)} ${num(reach * 2)} re`);
+        }
+        ops.push(...bands, 'f');
+        break;
+      }
+      case FrameStyle.IMAGE: {
+        if (!frameImage) break;
+        const scale = Math.max(width / frameImage.width, height / frameImage.height);
+        const drawWidth = frameImage.width * scale;
+        const drawHeight = frameImage.height * scale;
+        drawImage(frameImage, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+        break;
+      }
+    }
+    ops.push('Q');
+  };
+
+  // Text centred vertically on y like the canvas 'middle' baseline; squeezed to maxWidth like fillText
+  const drawText = (text: string, font: FontSpec, size: number, color: string, x: number, y: number, maxWidth: number, align: CanvasTextAlign, opacity = 1) => {
+    const printable = toPrintableText(text);
+    if (!printable.trim()) return;
+    const standard = getStandardFont(font);
+    const metrics = measureText(printable, standard.measureFont);
+    const naturalWidth = metrics.width * size;
+    const squeeze = naturalWidth > maxWidth ? maxWidth / naturalWidth : 1;
+    const width = naturalWidth * squeeze;
+    const left = align === 'center' ? x - width / 2 : align === 'right' ? x - width : x;
+    const baseline = y + (metrics.ascent - metrics.descent) / 2 * size;
+
+    ops.push('q');
+    setFill(color, opacity);
+    ops.push(
+      'BT',
+      `/${useFont(standard.name)} ${num(size)} Tf`,
+      `${num(squeeze * 100)} Tz`,
+      `1 0 0 -1 ${num(left)} ${num(baseline)} Tm`,
+      `${toPdfString(printable)} Tj`,
+      'ET',
+      'Q'
+    );
+  };
+
+  const drawDecorations = (above: boolean) => {
+    template.decorations.forEach((decoration, index) => {
+      if (!!decoration.above !== above) return;
+      withRect(decoration, (x, y, width, height) => {
+        if (decoration.fill) {
+          ops.push('q');
+          setFill(decoration.fill);
+          ops.push(roundRectPath(x, y, width, height, decoration.radius ?? 0), 'f', 'Q');
+        }
+        const image = decorationImages[index];
+        if (image) drawImage(image, x, y, width, height);
+      });
+    });
+  };
+
+  paintFrame(template.width, template.height);
+  drawDecorations(false);
+
+  // Photos fill their slots (object-fit: cover), clipped to the slot
+  template.photos.forEach((slot, index) => {
+    const photo = photos[index];
+    if (!photo) return;
+    withRect(slot, (x, y, width, height) => {
+      const scale = Math.max(width / photo.width, height / photo.height);
+      const drawWidth = photo.width * scale;
+      const drawHeight = photo.height * scale;
+      ops.push(`${num(x)} ${num(y)} ${num(width)} ${num(height)} re W n`);
+      drawImage(photo, x + (width - drawWidth) / 2, y + (height - drawHeight) / 2, drawWidth, drawHeight);
+    });
+  });
+
+  drawDecorations(true);
+
+  const textColor = getFooterTextColor(footer, frame);
+  const date = new Date();
+  template.texts.forEach(slot => {
+    withRect(slot, (x, _y, width) => {
+      const align = slot.align ?? 'center';
+      const textX = align === 'left' ? x : align === 'right' ? x + width : 0;
+      drawText(fillLayoutText(slot.text, footer, date), LAYOUT_FONTS[slot.font], slot.size, slot.color ?? textColor, textX, 0, width, align);
+    });
+  });
+
+  if (template.footer) {
+    const footerLayout = getFooterLayout(template.footer, footer, date);
+    footerLayout.lines.forEach(line => {
+      drawText(line.text, line.font, line.size, textColor, footerLayout.centerX, line.y, footerLayout.textWidth, 'center', line.opacity);
+    });
+
+    if (footerLayout.logo && logoImage) {
+      const { x, y, width, height } = footerLayout.logo;
+      drawImage(logoImage, x, y, width, height);
+    }
+
+    // QR modules with a one-module quiet zone, like the PNG version; runs of dark modules merge
+    if (qr && qr.length > 0) {
+      const { x, y, size } = footerLayout.qr;
+      const cell = size / (qr.length + 2);
+      const rects: string[] = [];
+      qr.forEach((row, r) => {
+        let start = -1;
+        row.forEach((dark, c) => {
+          if (dark && start < 0) start = c;
+          if ((!dark || c === row.length - 1) && start >= 0) {
+            const end = dark ? c + 1 : c;
+            rects.push(`${num(x + (start + 1) * cell)} ${num(y + (r + 1) * cell)} ${num((end - start) * cell)} ${num(cell)} re`);
+            start = -1;
+          }
+        });
+      });
+      ops.push('q');
+      setFill(getContrastTextColor(frame));
+      ops.push(...rects, 'f', 'Q');
+    }
+  }
+
+  // --- Page ---
+
+  const pageWidth = template.width * POINTS_PER_UNIT;
+  const pageHeight = template.height * POINTS_PER_UNIT;
+  // Template units, y down from the top left
+  const content = [`${num(POINTS_PER_UNIT)} 0 0 ${num(-POINTS_PER_UNIT)} 0 ${num(pageHeight)} cm`, ...ops].join('\n');
+  const contentId = add({ dict: '/Filter /FlateDecode', stream: await deflate(encoder.encode(content)) });
+
+  const entries = (values: Iterable<{ name: string; id: number }>) => [...values].map(({ name, id }) => `/${name} ${id} 0 R`).join(' ');
+  const resourceDict = [
+    `/Font << ${entries(fonts.values())} >>`,
+    `/XObject << ${resources.images.join(' ')} >>`,
+    `/ExtGState << ${entries(states.values())} >>`,
+    `/Shading << ${resources.shadings.join(' ')} >>`,
+  ].join(' ');
+
+  const pageId = objects.length + 1;
+  const pagesId = pageId + 1;
+  add({ value: `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(pageWidth)} ${num(pageHeight)}] /Resources << ${resourceDict} >> /Contents ${contentId} 0 R >>` });
+  add({ value: `<< /Type /Pages /Kids [${pageId} 0 R] /Count 1 >>` });
+  const catalogId = add({ value: `<< /Type /Catalog /Pages ${pagesId} 0 R >>` });
+
+  return serializePdf(objects, catalogId);
+};
@@ -0,0 +1,79 @@
+// PNG chunk helpers: canvas.toBlob writes PNGs without a physical size, print files add one.
+
+export const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+const INCHES_PER_METER = 1 / 0.0254;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 255] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Builds a PNG chunk: length, type, data and the CRC of type and data.
+ */
+export const createPngChunk = (type: string, data: Uint8Array) => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+export interface PngChunk {
+  type: string;
+  bytes: Uint8Array<ArrayBuffer>; // The whole chunk, length and CRC included
+}
+
+export const readPngChunks = (png: Uint8Array<ArrayBuffer>): PngChunk[] => {
+  if (!PNG_SIGNATURE.every((byte, i) => png[i] === byte)) throw new Error("Not a PNG file");
+
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= png.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    chunks.push({ type, bytes: png.subarray(offset, offset + 12 + length) });
+    offset += 12 + length;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+};
+
+/**
+ * Returns the PNG with a pHYs chunk recording its resolution, so print software sizes it
+ * correctly. Replaces any pHYs chunk already present.
+ */
+export const setPngDpi = async (png: Blob, dpi: number): Promise<Blob> => {
+  const chunks = readPngChunks(new Uint8Array(await png.arrayBuffer()));
+
+  const data = new Uint8Array(9);
+  const view = new DataView(data.buffer);
+  const pixelsPerMeter = Math.round(dpi * INCHES_PER_METER);
+  view.setUint32(0, pixelsPerMeter);
+  view.setUint32(4, pixelsPerMeter);
+  data[8] = 1; // Unit: meter
+  const phys = createPngChunk('pHYs', data);
+
+  // pHYs must come before the image data; right after the header is always valid
+  const parts: BlobPart[] = [new Uint8Array(PNG_SIGNATURE)];
+  chunks.forEach(chunk => {
+    if (chunk.type === 'pHYs') return;
+    parts.push(chunk.bytes);
+    if (chunk.type === 'IHDR') parts.push(phys);
+  });
+  return new Blob(parts, { type: 'image/png' });
+};
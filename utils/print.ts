@@ -0,0 +1,226 @@
+// Print files: the composite placed on a paper-sized sheet at a set DPI, optionally twice (2-up)
+// with cut marks, and with bleed so borderless printing doesn't leave white edges.
+
+import { PrintSettings } from "../types";
+import { PAPER_SIZES } from "../constants";
+import { setPngDpi } from "./png";
+
+// Pictures within this much of the cell's shape fill it edge to edge (cropping a sliver of
+// frame); others are fitted inside it so no photo gets cut
+const FILL_TOLERANCE = 0.1; // log of the aspect ratio difference
+const CUT_MARK_LENGTH = 0.125; // inches
+// window.print() blocks while the dialog is open in most browsers; a call that returns sooner
+// didn't, so afterprint is awaited, up to a limit for kiosk setups that never fire it
+const PRINT_BLOCKED_MS = 500;
+const AFTERPRINT_TIMEOUT = 60000; // ms
+
+interface SheetRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Orientation of the paper and the cells the picture goes into, in inches. With twoUp the
+ * sheet is split in half whichever way suits the picture best (side by side for strips).
+ */
+export const getSheetLayout = (settings: PrintSettings, pictureRatio: number) => {
+  const paper = PAPER_SIZES.find(p => p.value === settings.paperSize) ?? PAPER_SIZES[0];
+  const mismatch = (width: number, height: number) => Math.abs(Math.log(width / height / pictureRatio));
+
+  const candidates = [
+    { width: paper.width, height: paper.height },
+    { width: paper.height, height: paper.width },
+  ].flatMap(sheet => (settings.twoUp
+    ? [
+        { ...sheet, cells: [{ x: 0, y: 0, width: sheet.width / 2, height: sheet.height }, { x: sheet.width / 2, y: 0, width: sheet.width / 2, height: sheet.height }] },
+        { ...sheet, cells: [{ x: 0, y: 0, width: sheet.width, height: sheet.height / 2 }, { x: 0, y: sheet.height / 2, width: sheet.width, height: sheet.height / 2 }] },
+      ]
+    : [{ ...sheet, cells: [{ x: 0, y: 0, width: sheet.width, height: sheet.height }] }]
+  ));
+
+  return candidates.reduce((best, candidate) =>
+    mismatch(candidate.cells[0].width, candidate.cells[0].height) < mismatch(best.cells[0].width, best.cells[0].height) ? candidate : best
+  );
+};
+
+const loadPicture = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("The picture could not be loaded"));
+  img.src = src;
+});
+
+// Black line with a white halo, visible over any picture
+const drawCutMark = (ctx: CanvasRenderingContext2D, x1: number, y1: number, x2: number, y2: number, lineWidth: number) => {
+  ctx.lineCap = 'butt';
+  [{ color: '#FFFFFF', width: lineWidth * 3 }, { color: '#000000', width: lineWidth }].forEach(({ color, width }) => {
+    ctx.strokeStyle = color;
+    ctx.lineWidth = width;
+    ctx.beginPath();
+    ctx.moveTo(x1, y1);
+    ctx.lineTo(x2, y2);
+    ctx.stroke();
+  });
+};
+
+export interface PrintSheet {
+  png: Blob;
+  width: number; // Paper size in inches, as oriented on the sheet
+  height: number;
+}
+
+/**
+ * Renders the print sheet for a composite. The sheet is the paper size plus the bleed on every
+ * side; the PNG carries the DPI so it prints at the paper size.
+ */
+export const renderPrintSheet = async (compositeUrl: string, settings: PrintSettings): Promise<PrintSheet> => {
+  const picture = await loadPicture(compositeUrl);
+  const pictureRatio = picture.naturalWidth / picture.naturalHeight;
+  const sheet = getSheetLayout(settings, pictureRatio);
+  const { dpi, bleed } = settings;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round((sheet.width + bleed * 2) * dpi);
+  canvas.height = Math.round((sheet.height + bleed * 2) * dpi);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available");
+
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingQuality = 'high';
+
+  // Sheet inches to canvas pixels, the paper starting after the bleed
+  const toPixels = (rect: SheetRect): SheetRect => ({
+    x: (rect.x + bleed) * dpi,
+    y: (rect.y + bleed) * dpi,
+    width: rect.width * dpi,
+    height: rect.height * dpi,
+  });
+
+  sheet.cells.forEach(cell => {
+    const fills = Math.abs(Math.log(cell.width / cell.height / pictureRatio)) < FILL_TOLERANCE;
+    let target = toPixels(cell);
+    if (fills) {
+      // Run past the paper edges, not past the cut between the copies
+      const left = cell.x === 0 ? bleed : 0;
+      const top = cell.y === 0 ? bleed : 0;
+      const right = cell.x + cell.width >= sheet.width ? bleed : 0;
+      const bottom = cell.y + cell.height >= sheet.height ? bleed : 0;
+      target = toPixels({ x: cell.x - left, y: cell.y - top, width: cell.width + left + right, height: cell.height + top + bottom });
+    }
+
+    const scale = fills
+      ? Math.max(target.width / picture.naturalWidth, target.height / picture.naturalHeight)
+      : Math.min(target.width / picture.naturalWidth, target.height / picture.naturalHeight);
+    const width = picture.naturalWidth * scale;
+    const height = picture.naturalHeight * scale;
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(target.x, target.y, target.width, target.height);
+    ctx.clip();
+    ctx.drawImage(picture, target.x + (target.width - width) / 2, target.y + (target.height - height) / 2, width, height);
+    ctx.restore();
+  });
+
+  // Cut marks: ticks along each cut line at the edges of the sheet
+  const lineWidth = Math.max(1, dpi / 150);
+  const markLength = CUT_MARK_LENGTH * dpi;
+  const paper = toPixels({ x: 0, y: 0, width: sheet.width, height: sheet.height });
+  const verticalCut = (x: number, length: number) => {
+    drawCutMark(ctx, x, 0, x, length, lineWidth);
+    drawCutMark(ctx, x, canvas.height - length, x, canvas.height, lineWidth);
+  };
+  const horizontalCut = (y: number, length: number) => {
+    drawCutMark(ctx, 0, y, length, y, lineWidth);
+    drawCutMark(ctx, canvas.width - length, y, canvas.width, y, lineWidth);
+  };
+
+  if (sheet.cells.length > 1) {
+    const second = toPixels(sheet.cells[1]);
+    if (second.x > paper.x) verticalCut(second.x, paper.y + markLength);
+    else horizontalCut(second.y, paper.x + markLength);
+  }
+  if (bleed > 0) {
+    // Trim lines, in the bleed outside the paper
+    verticalCut(paper.x, paper.y);
+    verticalCut(paper.x + paper.width, paper.y);
+    horizontalCut(paper.y, paper.x);
+    horizontalCut(paper.y + paper.height, paper.x);
+  }
+
+  const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, "image/png"));
+  if (!png) throw new Error("The print file could not be encoded");
+  return { png: await setPngDpi(png, dpi), width: sheet.width, height: sheet.height };
+};
+
+export interface PrintPage {
+  src: string;
+  width: number; // Paper size in inches
+  height: number;
+  bleed: number; // Inches of the image past each paper edge
+}
+
+/**
+ * Prints sheets through the browser, one per page. The pages go into a print-only view
+ * (.print-view in index.html) with an @page size for each paper size, so jobs on different
+ * paper print in one run. Resolves once the print dialog has closed (or after a timeout where
+ * that can't be told).
+ */
+export const printPages = async (pages: PrintPage[]) => {
+  const view = document.createElement("div");
+  view.className = "print-view";
+
+  // Named pages per paper size and orientation
+  const sizes = [...new Set(pages.map(page => `${page.width}in ${page.height}in`))];
+  const style = document.createElement("style");
+  style.textContent = [
+    '@page { margin: 0; }',
+    ...sizes.map((size, i) => `@page sheet-${i} { size: ${size}; margin: 0; }`),
+    '.print-view .print-page + .print-page { break-before: page; }',
+  ].join('\n');
+  view.appendChild(style);
+
+  const images = pages.map(page => {
+    const sheet = document.createElement("div");
+    sheet.className = "print-page";
+    sheet.style.setProperty('page', `sheet-${sizes.indexOf(`${page.width}in ${page.height}in`)}`);
+    sheet.style.width = `${page.width}in`;
+    sheet.style.height = `${page.height}in`;
+    sheet.style.overflow = 'hidden';
+
+    // The bleed hangs off the page on every side
+    const img = document.createElement("img");
+    img.src = page.src;
+    img.style.display = 'block';
+    img.style.width = `${page.width + page.bleed * 2}in`;
+    img.style.height = `${page.height + page.bleed * 2}in`;
+    img.style.margin = `-${page.bleed}in 0 0 -${page.bleed}in`;
+    sheet.appendChild(img);
+    view.appendChild(sheet);
+    return img;
+  });
+
+  document.body.appendChild(view);
+  try {
+    await Promise.all(images.map(img => img.decode()));
+    await new Promise<void>(resolve => {
+      let timeout: number | undefined;
+      const done = () => {
+        window.clearTimeout(timeout);
+        window.removeEventListener('afterprint', done);
+        resolve();
+      };
+      window.addEventListener('afterprint', done);
+
+      const started = performance.now();
+      window.print();
+      if (performance.now() - started >= PRINT_BLOCKED_MS) done();
+      else timeout = window.setTimeout(done, AFTERPRINT_TIMEOUT);
+    });
+  } finally {
+    view.remove();
+  }
+};
@@ -0,0 +1,26 @@
+// localStorage helpers. Storage may be unavailable (private mode) or full;
+// callers then keep working with the in-memory value.
+const STORAGE_PREFIX = 'lets-take-a-pic:';
+
+export const loadStored = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch (e) {
+    return fallback;
+  }
+};
+
+export const saveStored = (key: string, value: unknown): boolean => {
+  try {
+    if (value === null || value === undefined) {
+      localStorage.removeItem(STORAGE_PREFIX + key);
+    } else {
+      localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+    }
+    return true;
+  } catch (e) {
+    console.warn(`Failed to save "${key}" locally`, e);
+    return false;
+  }
+};
@@ -0,0 +1,111 @@
+// Offline video encoding with WebCodecs: frames are drawn and encoded as fast as the encoder takes
+// them, with exact timestamps, then muxed in the browser. No real-time playback involved.
+
+import { AnimatedImageSource, EncodedVideoSample } from "../types";
+import { muxMp4 } from "./mp4";
+import { muxWebm } from "./webm";
+
+// In order of preference. Composites are large, so the H.264 profiles are at level 5.1.
+const VIDEO_CODECS = [
+  { codec: 'avc1.640033', container: 'mp4' }, // High
+  { codec: 'avc1.4d0033', container: 'mp4' }, // Main
+  { codec: 'avc1.42e033', container: 'mp4' }, // Baseline
+  { codec: 'vp09.00.50.08', container: 'webm' },
+  { codec: 'vp8', container: 'webm' },
+];
+
+const KEYFRAME_INTERVAL = 2000000; // microseconds
+// Frames handed to the encoder ahead of its output, so drawing doesn't outrun it
+const MAX_ENCODE_QUEUE = 8;
+
+const findEncoderConfig = async (width: number, height: number, bitrate: number, framerate: number) => {
+  for (const { codec, container } of VIDEO_CODECS) {
+    const config: VideoEncoderConfig = {
+      codec,
+      width,
+      height,
+      bitrate,
+      framerate,
+      ...(container === 'mp4' ? { avc: { format: 'avc' as const } } : {}),
+    };
+    try {
+      const { supported } = await VideoEncoder.isConfigSupported(config);
+      if (supported) return { config, container };
+    } catch {
+      // Unknown codec string, try the next one
+    }
+  }
+  return null;
+};
+
+const copyBytes = (source: AllowSharedBufferSource) => {
+  const bytes = new Uint8Array(source.byteLength);
+  bytes.set(ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength)
+    : new Uint8Array(source));
+  return bytes;
+};
+
+/**
+ * Encodes the frames to MP4 (H.264) or WebM (VP9/VP8), whichever the browser can encode.
+ * Resolves null when WebCodecs or a suitable encoder isn't available. Frame sizes must be even.
+ */
+export const encodeVideo = async (
+  source: AnimatedImageSource,
+  bitrate: number,
+  onProgress?: (progress: number) => void
+): Promise<Blob | null> => {
+  if (typeof VideoEncoder === 'undefined' || typeof VideoFrame === 'undefined') return null;
+  const { width, height, frameCount, delay } = source;
+  const choice = await findEncoderConfig(width, height, bitrate, 1000 / delay);
+  if (!choice) return null;
+
+  const samples: EncodedVideoSample[] = [];
+  let description = new Uint8Array(0);
+  let failure: DOMException | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      samples.push({ data, timestamp: chunk.timestamp, duration: chunk.duration ?? delay * 1000, keyframe: chunk.type === 'key' });
+      if (metadata?.decoderConfig?.description) description = copyBytes(metadata.decoderConfig.description);
+      onProgress?.(samples.length / frameCount);
+    },
+    error: e => {
+      failure = e;
+    },
+  });
+
+  try {
+    encoder.configure(choice.config);
+    let lastKeyframe = -Infinity;
+    for (let i = 0; i < frameCount; i++) {
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE && !failure) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+      if (failure) throw failure;
+
+      const timestamp = Math.round(i * delay * 1000);
+      const frame = new VideoFrame(source.renderFrame(i), {
+        timestamp,
+        duration: Math.round((i + 1) * delay * 1000) - timestamp,
+      });
+      const keyFrame = timestamp - lastKeyframe >= KEYFRAME_INTERVAL;
+      if (keyFrame) lastKeyframe = timestamp;
+      encoder.encode(frame, { keyFrame });
+      frame.close();
+    }
+    await encoder.flush();
+    if (failure) throw failure;
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+
+  if (samples.length === 0) throw new Error("The encoder produced no frames");
+  const track = { codec: choice.config.codec, width, height, description };
+  if (choice.container === 'mp4') {
+    if (description.length === 0) throw new Error("The encoder gave no H.264 configuration");
+    return muxMp4(track, samples);
+  }
+  return muxWebm(track, samples);
+};
@@ -0,0 +1,91 @@
+// Shared WebGL setup for the image pipelines (filters, chroma key): a full-screen quad
+// that runs a fragment shader over a frame uploaded as a texture.
+
+const VERTEX_SHADER = `
+attribute vec2 position;
+varying vec2 uv;
+void main() {
+  uv = position * 0.5 + 0.5;
+  gl_Position = vec4(position, 0.0, 1.0);
+}`;
+
+// Prefix for fragment shaders: high precision where the GPU supports it
+export const FRAGMENT_PRECISION = `
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif`;
+
+const compileShader = (gl: WebGLRenderingContext, type: number, source: string) => {
+  const shader = gl.createShader(type);
+  if (!shader) throw new Error("Failed to create shader");
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    throw new Error(gl.getShaderInfoLog(shader) || "Shader compile failed");
+  }
+  return shader;
+};
+
+/**
+ * Creates an offscreen WebGL context with a linked full-screen program in use.
+ * The fragment shader receives the texture coordinate as `varying vec2 uv`. Throws if compilation fails.
+ */
+export const createFullscreenProgram = (fragmentShader: string) => {
+  const canvas = document.createElement("canvas");
+  const gl = canvas.getContext("webgl", { premultipliedAlpha: false, preserveDrawingBuffer: true });
+  if (!gl) return null;
+
+  const program = gl.createProgram();
+  if (!program) return null;
+  gl.attachShader(program, compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER));
+  gl.attachShader(program, compileShader(gl, gl.FRAGMENT_SHADER, fragmentShader));
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(gl.getProgramInfoLog(program) || "Program link failed");
+  }
+  gl.useProgram(program);
+
+  // Full-screen quad
+  const buffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+  const position = gl.getAttribLocation(program, "position");
+  gl.enableVertexAttribArray(position);
+  gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+  return { canvas, gl, program };
+};
+
+// Frames are not power-of-two sized, so no mipmaps and clamped edges
+export const createTexture = (gl: WebGLRenderingContext, unit: number, filter: number) => {
+  const texture = gl.createTexture();
+  gl.activeTexture(unit);
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, filter);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, filter);
+  return texture;
+};
+
+// Uploads a canvas to the texture bound on the given unit, top row first like the 2D canvas
+export const uploadCanvas = (gl: WebGLRenderingContext, unit: number, texture: WebGLTexture | null, source: TexImageSource) => {
+  gl.activeTexture(unit);
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+};
+
+// Replaces the target canvas contents with the WebGL output
+export const copyToCanvas = (glCanvas: HTMLCanvasElement, target: HTMLCanvasElement): boolean => {
+  const ctx = target.getContext("2d");
+  if (!ctx) return false;
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalCompositeOperation = "copy";
+  ctx.drawImage(glCanvas, 0, 0);
+  ctx.restore();
+  return true;
+};
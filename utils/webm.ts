@@ -0,0 +1,110 @@
+// Minimal WebM (Matroska) writer for one VP8/VP9 track from WebCodecs: SimpleBlocks in clusters
+// that start at keyframes, with millisecond timecodes.
+
+import { EncodedVideoSample, EncodedVideoTrack } from "../types";
+
+// Cluster-relative block timecodes are signed 16-bit milliseconds
+const MAX_CLUSTER_MS = 30000;
+
+const concat = (parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+const uint = (value: number) => {
+  const bytes: number[] = [];
+  do {
+    bytes.unshift(value % 256);
+    value = Math.floor(value / 256);
+  } while (value > 0);
+  return Uint8Array.from(bytes);
+};
+
+const float64 = (value: number) => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+};
+
+const text = (value: string) => Uint8Array.from(value, c => c.charCodeAt(0));
+
+// Element size as an 8-byte variable-length integer
+const size = (value: number) => {
+  const bytes = new Uint8Array(8);
+  bytes[0] = 0x01;
+  for (let i = 7, rest = value; i > 0; i--, rest = Math.floor(rest / 256)) bytes[i] = rest % 256;
+  return bytes;
+};
+
+const element = (id: number, ...content: Uint8Array[]) => {
+  const body = concat(content);
+  return concat([uint(id), size(body.length), body]);
+};
+
+const simpleBlock = (sample: EncodedVideoSample, relativeMs: number) => {
+  const header = new Uint8Array(4);
+  header[0] = 0x81; // Track number 1
+  new DataView(header.buffer).setInt16(1, relativeMs);
+  header[3] = sample.keyframe ? 0x80 : 0;
+  return element(0xa3, header, sample.data);
+};
+
+/**
+ * Writes VP8/VP9 samples as a WebM file.
+ */
+export const muxWebm = (track: EncodedVideoTrack, samples: EncodedVideoSample[]): Blob => {
+  const toMs = (us: number) => Math.round(us / 1000);
+  const last = samples[samples.length - 1];
+
+  const header = element(0x1a45dfa3,
+    element(0x4286, uint(1)), // EBMLVersion
+    element(0x42f7, uint(1)), // EBMLReadVersion
+    element(0x42f2, uint(4)), // EBMLMaxIDLength
+    element(0x42f3, uint(8)), // EBMLMaxSizeLength
+    element(0x4282, text('webm')), // DocType
+    element(0x4287, uint(2)), // DocTypeVersion
+    element(0x4285, uint(2)) // DocTypeReadVersion
+  );
+
+  const info = element(0x1549a966,
+    element(0x2ad7b1, uint(1000000)), // TimecodeScale: 1 ms
+    element(0x4d80, text("let's take a pic")), // MuxingApp
+    element(0x5741, text("let's take a pic")), // WritingApp
+    element(0x4489, float64(toMs(last.timestamp + last.duration))) // Duration
+  );
+
+  const tracks = element(0x1654ae6b,
+    element(0xae, // TrackEntry
+      element(0xd7, uint(1)), // TrackNumber
+      element(0x73c5, uint(1)), // TrackUID
+      element(0x83, uint(1)), // TrackType: video
+      element(0x86, text(track.codec.startsWith('vp09') ? 'V_VP9' : 'V_VP8')),
+      element(0xe0, element(0xb0, uint(track.width)), element(0xba, uint(track.height))) // Video: pixel size
+    )
+  );
+
+  // A new cluster at every keyframe, or before relative timecodes would overflow
+  const clusters: Uint8Array[] = [];
+  let start = 0;
+  let blocks: Uint8Array[] = [];
+  const flush = () => {
+    if (blocks.length > 0) clusters.push(element(0x1f43b675, element(0xe7, uint(start)), ...blocks));
+    blocks = [];
+  };
+  samples.forEach(sample => {
+    const time = toMs(sample.timestamp);
+    if (blocks.length === 0 || sample.keyframe || time - start > MAX_CLUSTER_MS) {
+      flush();
+      start = time;
+    }
+    blocks.push(simpleBlock(sample, time - start));
+  });
+  flush();
+
+  return new Blob([header, element(0x18538067, info, tracks, ...clusters)], { type: 'video/webm' });
+};
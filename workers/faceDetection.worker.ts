@@ -0,0 +1,59 @@
+import { FaceDetectionRequest, FaceDetectionResponse, RawFacePrediction } from '../utils/faceTracking';
+
+// Classic worker (no bundled imports, types only): tfjs and blazeface come from the same CDN builds as index.html
+const TFJS_URL = 'https://cdn.jsdelivr.net/npm/@tensorflow/tfjs@4.10.0/dist/tf.min.js';
+const BLAZEFACE_URL = 'https://cdn.jsdelivr.net/npm/@tensorflow-models/blazeface@0.1.0/dist/blazeface.min.js';
+
+// The project compiles against the DOM lib, so worker globals are accessed untyped
+const scope: any = self;
+
+let modelPromise: Promise<any> | null = null;
+let canvas: OffscreenCanvas | null = null;
+
+const loadModel = (): Promise<any> => {
+  if (!modelPromise) {
+    // Throws if the CDN is unreachable, the hook then falls back to main-thread detection
+    scope.importScripts(TFJS_URL, BLAZEFACE_URL);
+    modelPromise = scope.blazeface.load();
+  }
+  return modelPromise!;
+};
+
+const respond = (response: FaceDetectionResponse) => {
+  scope.postMessage(response);
+};
+
+scope.onmessage = async (event: MessageEvent<FaceDetectionRequest>) => {
+  const { id, frame } = event.data;
+  const frameWidth = frame.width;
+  const frameHeight = frame.height;
+
+  try {
+    const model = await loadModel();
+
+    if (!canvas || canvas.width !== frameWidth || canvas.height !== frameHeight) {
+      canvas = new OffscreenCanvas(frameWidth, frameHeight);
+    }
+    const ctx = canvas.getContext('2d', { willReadFrequently: true }) as OffscreenCanvasRenderingContext2D | null;
+    if (!ctx) throw new Error("OffscreenCanvas 2D context unavailable");
+
+    ctx.drawImage(frame, 0, 0);
+    const imageData = ctx.getImageData(0, 0, frameWidth, frameHeight);
+    const predictions = await model.estimateFaces(imageData, false);
+
+    respond({
+      id,
+      frameWidth,
+      frameHeight,
+      predictions: predictions.map((p: any): RawFacePrediction => ({
+        topLeft: p.topLeft,
+        bottomRight: p.bottomRight,
+        landmarks: p.landmarks
+      }))
+    });
+  } catch (e) {
+    respond({ id, frameWidth, frameHeight, error: String(e) });
+  } finally {
+    frame.close();
+  }
+};